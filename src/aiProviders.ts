@@ -1,56 +1,71 @@
 import axios from 'axios';
-import { AIProvider } from './types';
+import { AIProvider, ChatTurn, QueryOptions } from './types';
+import { toGeminiSchema } from './responseSchema';
+
+// Set on errors thrown before any request is made because no API key is stored
+const MISSING_API_KEY = 'ENOAPIKEY';
+const RETRYABLE_ERROR_CODES = ['ECONNREFUSED', 'ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', MISSING_API_KEY];
+
+export class ProviderError extends Error {
+	constructor(message: string, public readonly status?: number, public readonly code?: string) {
+		super(message);
+		this.name = 'ProviderError';
+	}
+
+	get retryable(): boolean {
+		if (this.code && RETRYABLE_ERROR_CODES.includes(this.code)) {
+			return true;
+		}
+		// A missing or rejected key leaves the provider unavailable, the next one in a fallback chain may still answer
+		return this.status === 401 || this.status === 403 || this.status === 429 || (this.status !== undefined && this.status >= 500);
+	}
+}
+
+async function readStreamLines(stream: AsyncIterable<Buffer>, onLine: (line: string) => void): Promise<void> {
+	const decoder = new TextDecoder();
+	let buffer = '';
+	for await (const chunk of stream) {
+		buffer += decoder.decode(chunk, { stream: true });
+		let newline = buffer.indexOf('\n');
+		while (newline >= 0) {
+			onLine(buffer.substring(0, newline).replace(/\r$/, ''));
+			buffer = buffer.substring(newline + 1);
+			newline = buffer.indexOf('\n');
+		}
+	}
+	buffer += decoder.decode();
+	if (buffer.trim().length > 0) {
+		onLine(buffer);
+	}
+}
 
 export class GeminiProvider implements AIProvider {
 	name = 'Gemini';
 	private apiKey: string;
 	private endpoint: string;
-	private model: string;
+	private streamEndpoint: string;
+	readonly model: string;
 
 	constructor(apiKey: string, model: string = 'gemini-1.5-flash') {
 		this.apiKey = apiKey;
 		this.model = model;
 		this.endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent`;
+		this.streamEndpoint = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:streamGenerateContent?alt=sse`;
 	}
 
-	async query(prompt: string): Promise<string> {
+	async query(prompt: string, options?: QueryOptions): Promise<string> {
+		if (!this.apiKey) {
+			throw new ProviderError('No Gemini API key stored. Run "What-The-Code: Set API Key" to add one.', undefined, MISSING_API_KEY);
+		}
+
 		try {
 			const response = await axios.post(
-				`${this.endpoint}?key=${this.apiKey}`,
-				{
-					contents: [{
-						parts: [{
-							text: prompt
-						}]
-					}],
-					generationConfig: {
-						temperature: 0.1,
-						topK: 20,
-						topP: 0.9,
-						maxOutputTokens: 1024,
-					},
-					safetySettings: [
-						{
-							category: "HARM_CATEGORY_HARASSMENT",
-							threshold: "BLOCK_MEDIUM_AND_ABOVE"
-						},
-						{
-							category: "HARM_CATEGORY_HATE_SPEECH",
-							threshold: "BLOCK_MEDIUM_AND_ABOVE"
-						},
-						{
-							category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-							threshold: "BLOCK_MEDIUM_AND_ABOVE"
-						},
-						{
-							category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-							threshold: "BLOCK_MEDIUM_AND_ABOVE"
-						}
-					]
-				},
+				this.endpoint,
+				this.buildRequestBody(prompt, options),
 				{
 					headers: {
-						'Content-Type': 'application/json'
+						'Content-Type': 'application/json',
+						'x-goog-api-key': this.apiKey
 					},
 					timeout: 30000
 				}
@@ -62,25 +77,370 @@ export class GeminiProvider implements AIProvider {
 				throw new Error('Invalid response format from Gemini API');
 			}
 		} catch (error: any) {
-			console.error('Gemini API Error:', error);
-			
-			if (error.code === 'ECONNREFUSED') {
-				throw new Error('Cannot connect to Gemini API. Check your internet connection.');
-			} else if (error.code === 'ECONNABORTED') {
-				throw new Error('Request timed out. Please try again.');
-			} else if (error.response?.status === 401) {
-				throw new Error('Invalid Gemini API key. Please check your configuration.');
-			} else if (error.response?.status === 403) {
-				throw new Error('Gemini API access forbidden. Check your API key permissions.');
-			} else if (error.response?.status === 429) {
-				throw new Error('Gemini API rate limit exceeded. Please try again later.');
-			} else if (error.response?.data?.error) {
-				throw new Error(`Gemini API error: ${error.response.data.error.message || error.response.data.error}`);
+			throw this.toProviderError(error);
+		}
+	}
+
+	async queryStream(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal, options?: QueryOptions): Promise<string> {
+		if (!this.apiKey) {
+			throw new ProviderError('No Gemini API key stored. Run "What-The-Code: Set API Key" to add one.', undefined, MISSING_API_KEY);
+		}
+
+		try {
+			const response = await axios.post(
+				this.streamEndpoint,
+				this.buildRequestBody(prompt, options),
+				{
+					headers: {
+						'Content-Type': 'application/json',
+						'x-goog-api-key': this.apiKey
+					},
+					responseType: 'stream',
+					timeout: 30000,
+					signal
+				}
+			);
+
+			let text = '';
+			await readStreamLines(response.data, line => {
+				if (!line.startsWith('data:')) {
+					return;
+				}
+				const chunk = JSON.parse(line.substring(5))?.candidates?.[0]?.content?.parts?.[0]?.text;
+				if (typeof chunk === 'string' && chunk.length > 0) {
+					text += chunk;
+					onChunk(chunk);
+				}
+			});
+			return text;
+		} catch (error: any) {
+			throw this.toProviderError(error);
+		}
+	}
+
+	private buildRequestBody(prompt: string, options?: QueryOptions) {
+		return {
+			contents: [{
+				parts: [{
+					text: prompt
+				}]
+			}],
+			generationConfig: {
+				temperature: 0.1,
+				topK: 20,
+				topP: 0.9,
+				maxOutputTokens: 1024,
+				...(options?.responseSchema ? {
+					responseMimeType: 'application/json',
+					responseSchema: toGeminiSchema(options.responseSchema)
+				} : {})
+			},
+			safetySettings: [
+				{
+					category: "HARM_CATEGORY_HARASSMENT",
+					threshold: "BLOCK_MEDIUM_AND_ABOVE"
+				},
+				{
+					category: "HARM_CATEGORY_HATE_SPEECH",
+					threshold: "BLOCK_MEDIUM_AND_ABOVE"
+				},
+				{
+					category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+					threshold: "BLOCK_MEDIUM_AND_ABOVE"
+				},
+				{
+					category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+					threshold: "BLOCK_MEDIUM_AND_ABOVE"
+				}
+			]
+		};
+	}
+
+	private toProviderError(error: any): ProviderError {
+		if (error instanceof ProviderError) {
+			return error;
+		}
+		console.error('Gemini API Error:', error.message);
+
+		if (error.code === 'ECONNREFUSED') {
+			return new ProviderError('Cannot connect to Gemini API. Check your internet connection.', error.response?.status, error.code);
+		} else if (error.code === 'ECONNABORTED') {
+			return new ProviderError('Request timed out. Please try again.', error.response?.status, error.code);
+		} else if (error.response?.status === 401) {
+			return new ProviderError('Invalid Gemini API key. Please check your configuration.', error.response?.status, error.code);
+		} else if (error.response?.status === 403) {
+			return new ProviderError('Gemini API access forbidden. Check your API key permissions.', error.response?.status, error.code);
+		} else if (error.response?.status === 429) {
+			return new ProviderError('Gemini API rate limit exceeded. Please try again later.', error.response?.status, error.code);
+		} else if (error.response?.data?.error) {
+			return new ProviderError(`Gemini API error: ${error.response.data.error.message || error.response.data.error}`, error.response?.status, error.code);
+		}
+
+		return new ProviderError(`Gemini error: ${error.message}`, error.response?.status, error.code);
+	}
+}
+
+export class OllamaProvider implements AIProvider {
+	name = 'Ollama';
+	private baseUrl: string;
+	private structuredOutput = true;
+	readonly model: string;
+
+	constructor(baseUrl: string = 'http://localhost:11434', model: string = 'codellama:7b-instruct') {
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+		this.model = model;
+	}
+
+	async query(prompt: string, options?: QueryOptions): Promise<string> {
+		try {
+			const response = await axios.post(
+				`${this.baseUrl}/api/generate`,
+				this.buildRequestBody(prompt, false, options),
+				{
+					headers: {
+						'Content-Type': 'application/json'
+					},
+					timeout: 120000
+				}
+			);
+
+			if (typeof response.data?.response === 'string') {
+				return response.data.response;
+			} else {
+				throw new Error('Invalid response format from Ollama API');
+			}
+		} catch (error: any) {
+			if (this.rejectedResponseSchema(error, options)) {
+				return this.query(prompt);
 			}
-			
-			throw new Error(`Gemini error: ${error.message}`);
+			throw this.toProviderError(error);
 		}
 	}
+
+	async queryStream(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal, options?: QueryOptions): Promise<string> {
+		try {
+			const response = await axios.post(
+				`${this.baseUrl}/api/generate`,
+				this.buildRequestBody(prompt, true, options),
+				{
+					headers: {
+						'Content-Type': 'application/json'
+					},
+					responseType: 'stream',
+					timeout: 120000,
+					signal
+				}
+			);
+
+			// Ollama streams one JSON object per line
+			let text = '';
+			await readStreamLines(response.data, line => {
+				if (line.trim().length === 0) {
+					return;
+				}
+				const data = JSON.parse(line);
+				if (data.error) {
+					throw new Error(data.error);
+				}
+				if (typeof data.response === 'string' && data.response.length > 0) {
+					text += data.response;
+					onChunk(data.response);
+				}
+			});
+			return text;
+		} catch (error: any) {
+			if (this.rejectedResponseSchema(error, options)) {
+				return this.queryStream(prompt, onChunk, signal);
+			}
+			throw this.toProviderError(error);
+		}
+	}
+
+	private buildRequestBody(prompt: string, stream: boolean, options?: QueryOptions) {
+		return {
+			model: this.model,
+			prompt: prompt,
+			stream: stream,
+			...(options?.responseSchema && this.structuredOutput ? { format: options.responseSchema } : {}),
+			options: {
+				temperature: 0.1,
+				top_k: 20,
+				top_p: 0.9,
+				num_predict: 1024
+			}
+		};
+	}
+
+	// Servers that predate structured output answer 400, so ask again without the schema from then on
+	private rejectedResponseSchema(error: any, options?: QueryOptions): boolean {
+		if (!options?.responseSchema || !this.structuredOutput || error.response?.status !== 400) {
+			return false;
+		}
+		this.structuredOutput = false;
+		return true;
+	}
+
+	private toProviderError(error: any): ProviderError {
+		if (error instanceof ProviderError) {
+			return error;
+		}
+		console.error('Ollama API Error:', error.message);
+
+		if (error.code === 'ECONNREFUSED') {
+			return new ProviderError(`Cannot connect to Ollama at ${this.baseUrl}. Make sure "ollama serve" is running.`, error.response?.status, error.code);
+		} else if (error.code === 'ECONNABORTED') {
+			return new ProviderError('Ollama request timed out. The model may still be loading, please try again.', error.response?.status, error.code);
+		} else if (error.response?.status === 404) {
+			return new ProviderError(`Ollama model "${this.model}" not found. Run "ollama pull ${this.model}" first.`, error.response?.status, error.code);
+		} else if (error.response?.data?.error) {
+			return new ProviderError(`Ollama error: ${error.response.data.error}`, error.response?.status, error.code);
+		}
+
+		return new ProviderError(`Ollama error: ${error.message}`, error.response?.status, error.code);
+	}
+}
+
+export interface OpenAICompatibleOptions {
+	baseUrl: string;
+	model: string;
+	apiKey?: string;
+	headers?: { [key: string]: string };
+}
+
+export class OpenAICompatibleProvider implements AIProvider {
+	name = 'OpenAI-compatible';
+	private endpoint: string;
+	readonly model: string;
+	private headers: { [key: string]: string };
+	private structuredOutput = true;
+
+	constructor(options: OpenAICompatibleOptions) {
+		const baseUrl = options.baseUrl.replace(/\/+$/, '');
+		// Full endpoint URLs (e.g. Azure deployments with ?api-version=) are used as-is
+		this.endpoint = baseUrl.includes('/chat/completions') ? baseUrl : `${baseUrl}/chat/completions`;
+		this.model = options.model;
+		this.headers = {
+			'Content-Type': 'application/json',
+			...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+			...(options.headers || {})
+		};
+	}
+
+	async query(prompt: string, options?: QueryOptions): Promise<string> {
+		try {
+			const response = await axios.post(
+				this.endpoint,
+				this.buildRequestBody(prompt, false, options),
+				{
+					headers: this.headers,
+					timeout: 60000
+				}
+			);
+
+			const content = response.data?.choices?.[0]?.message?.content;
+			if (typeof content === 'string') {
+				return content;
+			} else {
+				throw new Error('Invalid response format from chat completions endpoint');
+			}
+		} catch (error: any) {
+			if (this.rejectedResponseSchema(error, options)) {
+				return this.query(prompt);
+			}
+			throw this.toProviderError(error);
+		}
+	}
+
+	async queryStream(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal, options?: QueryOptions): Promise<string> {
+		try {
+			const response = await axios.post(
+				this.endpoint,
+				this.buildRequestBody(prompt, true, options),
+				{
+					headers: this.headers,
+					responseType: 'stream',
+					timeout: 60000,
+					signal
+				}
+			);
+
+			let text = '';
+			await readStreamLines(response.data, line => {
+				if (!line.startsWith('data:')) {
+					return;
+				}
+				const payload = line.substring(5).trim();
+				if (payload === '[DONE]') {
+					return;
+				}
+				const chunk = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+				if (typeof chunk === 'string' && chunk.length > 0) {
+					text += chunk;
+					onChunk(chunk);
+				}
+			});
+			return text;
+		} catch (error: any) {
+			if (this.rejectedResponseSchema(error, options)) {
+				return this.queryStream(prompt, onChunk, signal);
+			}
+			throw this.toProviderError(error);
+		}
+	}
+
+	private buildRequestBody(prompt: string, stream: boolean, options?: QueryOptions) {
+		return {
+			model: this.model,
+			messages: [
+				{
+					role: 'user',
+					content: prompt
+				}
+			],
+			temperature: 0.1,
+			top_p: 0.9,
+			max_tokens: 1024,
+			stream: stream,
+			...(options?.responseSchema && this.structuredOutput ? {
+				response_format: {
+					type: 'json_schema',
+					json_schema: { name: 'response', schema: options.responseSchema }
+				}
+			} : {})
+		};
+	}
+
+	// Servers that predate structured output answer 400, so ask again without the schema from then on
+	private rejectedResponseSchema(error: any, options?: QueryOptions): boolean {
+		if (!options?.responseSchema || !this.structuredOutput || error.response?.status !== 400) {
+			return false;
+		}
+		this.structuredOutput = false;
+		return true;
+	}
+
+	private toProviderError(error: any): ProviderError {
+		if (error instanceof ProviderError) {
+			return error;
+		}
+		console.error('OpenAI-compatible API Error:', error.message);
+
+		if (error.code === 'ECONNREFUSED') {
+			return new ProviderError(`Cannot connect to ${this.endpoint}. Check that the server is running.`, error.response?.status, error.code);
+		} else if (error.code === 'ECONNABORTED') {
+			return new ProviderError('Request timed out. Please try again.', error.response?.status, error.code);
+		} else if (error.response?.status === 401) {
+			return new ProviderError('Invalid API key for the chat completions endpoint. Please check your configuration.', error.response?.status, error.code);
+		} else if (error.response?.status === 404) {
+			return new ProviderError(`Endpoint or model "${this.model}" not found at ${this.endpoint}.`, error.response?.status, error.code);
+		} else if (error.response?.status === 429) {
+			return new ProviderError('Chat completions rate limit exceeded. Please try again later.', error.response?.status, error.code);
+		} else if (error.response?.data?.error) {
+			return new ProviderError(`Chat completions error: ${error.response.data.error.message || error.response.data.error}`, error.response?.status, error.code);
+		}
+
+		return new ProviderError(`OpenAI-compatible error: ${error.message}`, error.response?.status, error.code);
+	}
 }
 
 export class PromptBuilder {
@@ -93,7 +453,7 @@ ${context}
 Instructions:
 1. Find code that directly relates to the user's query
 2. Look for functions, classes, methods, imports, and configurations
-3. Include the exact file path and approximate line number
+3. Include the exact file path and the line number shown before the "|" on each code line
 4. Provide a brief explanation of why each section is relevant
 
 Return your response as valid JSON in exactly this format:
@@ -111,28 +471,71 @@ Return your response as valid JSON in exactly this format:
 If no relevant code is found, return: {"results": []}`;
 	}
 
-	static buildContextSection(files: any[], maxChars: number = 5000): string {
-		let context = '';
-		let totalChars = 0;
+	static buildFollowUpPrompt(question: string, history: ChatTurn[], previousContext: string, context: string): string {
+		const conversation = history.map(turn => {
+			if (turn.role === 'user') {
+				return `User: ${turn.text}`;
+			}
+			const results = (turn.results || [])
+				.map(result => `  - ${result.file}:${result.line} - ${result.explanation}`)
+				.join('\n');
+			return `Assistant: ${turn.text}${results ? `\n${results}` : ''}`;
+		}).join('\n');
 
-		for (const file of files) {
-			const truncatedContent = file.content.length > 1000 
-				? file.content.substring(0, 1000) + '\n... (truncated)'
-				: file.content;
+		return `You are a code analysis expert helping a developer explore their codebase in a conversation.
 
-			const fileSection = `File: ${file.path}
-${truncatedContent}
----
-`;
-			
-			if (totalChars + fileSection.length < maxChars) {
-				context += fileSection;
-				totalChars += fileSection.length;
-			} else {
-				break;
-			}
-		}
+Conversation so far:
+${conversation}
+
+${previousContext ? `Code the previous answer was based on:
+${previousContext}
+
+` : ''}Code retrieved for the new question:
+${context}
+
+New question: "${question}"
+
+Instructions:
+1. Answer the new question in the context of the conversation - "it", "that" and "there" refer to the code discussed above
+2. Refine or extend the earlier results rather than repeating them
+3. Include the exact file path and the line number shown before the "|" on each code line
+4. Keep the answer to a few sentences
+
+Return your response as valid JSON in exactly this format:
+{
+  "answer": "short answer to the question",
+  "results": [
+	{
+	  "file": "path/to/file.ext",
+	  "line": 25,
+	  "content": "relevant code snippet",
+	  "explanation": "brief explanation of relevance"
+	}
+  ]
+}`;
+	}
+
+	static buildRepairPrompt(response: string, errors: string[]): string {
+		return `Your previous answer could not be used because it did not match the required JSON format.
+
+Problems found:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Previous answer:
+${response}
+
+Return the same findings as valid JSON in exactly this format, with no other text:
+{
+  "results": [
+	{
+	  "file": "path/to/file.ext",
+	  "line": 25,
+	  "content": "relevant code snippet",
+	  "explanation": "brief explanation of relevance"
+	}
+  ]
+}
 
-		return context;
+If the previous answer contained no usable findings, return: {"results": []}`;
 	}
 }
@@ -2,17 +2,47 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { PerformanceMonitor } from './performanceMonitor';
+import { ModuleNode, ReferenceGraph } from './referenceGraph';
+import { EntryPoints } from './entryPoints';
+import { AstAnalyzer } from './astAnalyzer';
+import { CssUsageIndex, extractSelectors } from './cssUsageIndex';
+import { ProjectFileCollector } from './getProjectFiles';
+import { CoverageReader, DEFAULT_COVERAGE_PATHS, FileCoverage } from './coverageReader';
+import { filterSuppressed } from './suppressions';
+
+// 1-based lines and columns; endColumn is exclusive
+export interface SourceRange {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface Removal extends SourceRange {
+    // False when only part of a statement goes, like one specifier of an import
+    wholeStatement: boolean;
+}
 
 export interface DeadCodeIssue {
-    type: 'unused-function' | 'unused-variable' | 'unused-import' | 'unused-component' | 'unused-route';
+    type: 'unused-function' | 'unused-variable' | 'unused-import' | 'unused-component' | 'unused-route'
+        | 'unused-export' | 'unused-module' | 'orphan-file' | 'unused-selector';
     filePath: string;
     relativePath: string;
     line: number;
     column: number;
+    // Exact end of the flagged code where the analyzer knows it; endColumn is exclusive
+    endLine?: number;
+    endColumn?: number;
+    // The whole function, method or variable declaration a name-only range belongs to
+    declaration?: SourceRange;
+    // Text to delete to remove just this finding; unset when that can't be done safely
+    removal?: Removal;
     name: string;
     description: string;
     confidence: 'high' | 'medium' | 'low';
     category: 'dead-code' | 'rarely-used' | 'test-only';
+    // Hits recorded by loaded coverage; 0 means the code was instrumented but never ran
+    runtimeHits?: number;
 }
 
 export interface RuntimeStats {
@@ -25,9 +55,11 @@ export interface RuntimeStats {
 
 export class DeadCodeAnalyzer {
     private runtimeStats: RuntimeStats;
-    private instrumentedFiles: Set<string> = new Set();
-    private originalContent: Map<string, string> = new Map();
+    private coverage: Map<string, FileCoverage> = new Map();
     private performanceMonitor: PerformanceMonitor;
+    private referenceGraph?: ReferenceGraph;
+    private astAnalyzer = new AstAnalyzer();
+    private cssUsageIndex?: CssUsageIndex;
 
     constructor() {
         this.runtimeStats = {
@@ -40,9 +72,116 @@ export class DeadCodeAnalyzer {
         this.performanceMonitor = new PerformanceMonitor();
     }
 
+    /** Exported declarations are left to the graph, which knows whether other files import them. */
+    setReferenceGraph(graph: ReferenceGraph | undefined): void {
+        this.referenceGraph = graph;
+    }
+
+    /**
+     * Walks the reference graph from the entry points. Modules and exports only
+     * tests can reach are 'test-only'; anything nothing reaches is 'dead-code'.
+     * Without any production entry point, modules nobody imports act as roots.
+     */
+    computeReachability(graph: ReferenceGraph, entryPoints: EntryPoints): DeadCodeIssue[] {
+        const issues: DeadCodeIssue[] = [];
+        const modules = graph.getModules();
+        const hasProductionRoots = entryPoints.production.size > 0;
+        const roots = hasProductionRoots
+            ? entryPoints.production
+            : modules.filter(module => module.importedBy.size === 0 && !entryPoints.tests.has(module.file.filePath)).map(module => module.file.filePath);
+        const production = graph.collectReachable(roots);
+        const fromTests = graph.collectReachable(entryPoints.tests);
+
+        for (const module of modules) {
+            const filePath = module.file.filePath;
+            // Entry points are loaded from outside the project (runtime, test runner, bundler), so are their exports
+            if (entryPoints.production.has(filePath) || entryPoints.tests.has(filePath)) {
+                continue;
+            }
+
+            if (!hasProductionRoots && module.importedBy.size === 0) {
+                issues.push(this.createModuleIssue(module, 'dead-code', 'is never imported by another file'));
+                continue;
+            }
+            if (!production.has(filePath)) {
+                issues.push(fromTests.has(filePath)
+                    ? this.createModuleIssue(module, 'test-only', 'is only reachable from tests')
+                    : this.createModuleIssue(module, 'dead-code', 'is not reachable from any entry point'));
+                // The whole file is already reported, listing each export again is noise
+                continue;
+            }
+
+            for (const exp of module.exports) {
+                const users = [...graph.getExportUsers(filePath, exp.name)];
+                if (users.some(user => production.has(user))) {
+                    continue;
+                }
+                const testOnly = users.some(user => fromTests.has(user));
+                const usedLocally = !!exp.localName && (module.identifierCounts.get(exp.localName) || 0) > 1;
+                issues.push({
+                    type: 'unused-export',
+                    filePath,
+                    relativePath: module.file.relativePath,
+                    line: exp.line,
+                    column: exp.column,
+                    name: exp.name,
+                    description: testOnly
+                        ? `Export '${exp.name}' is only imported by tests`
+                        : usedLocally
+                            ? `Export '${exp.name}' is not imported anywhere (only used inside this file)`
+                            : `Export '${exp.name}' is not imported anywhere`,
+                    confidence: usedLocally || testOnly ? 'low' : 'medium',
+                    category: testOnly ? 'test-only' : 'dead-code'
+                });
+            }
+        }
+        return this.filterSuppressedGraphIssues(issues);
+    }
+
+    /** Graph findings come without file contents, read them only for files that have findings. */
+    private filterSuppressedGraphIssues(issues: DeadCodeIssue[]): DeadCodeIssue[] {
+        const byFile = new Map<string, DeadCodeIssue[]>();
+        issues.forEach(issue => byFile.set(issue.filePath, [...byFile.get(issue.filePath) || [], issue]));
+
+        const remaining: DeadCodeIssue[] = [];
+        for (const [filePath, fileIssues] of byFile) {
+            let content = '';
+            try {
+                content = fs.readFileSync(filePath, 'utf8');
+            } catch (error) {
+                console.warn(`Could not read ${filePath} for suppression comments:`, error);
+            }
+            remaining.push(...filterSuppressed(fileIssues, content, filePath, issue => issue.name));
+        }
+        return remaining;
+    }
+
+    private createModuleIssue(module: ModuleNode, category: DeadCodeIssue['category'], reason: string): DeadCodeIssue {
+        const importsLocalModules = [...module.imports, ...module.reExports].some(ref => ref.resolvedPath);
+        const fileName = path.basename(module.file.filePath);
+        const isOrphan = !importsLocalModules && module.importedBy.size === 0;
+        return {
+            type: isOrphan ? 'orphan-file' : 'unused-module',
+            filePath: module.file.filePath,
+            relativePath: module.file.relativePath,
+            line: 1,
+            column: 1,
+            name: fileName,
+            description: isOrphan
+                ? `File '${fileName}' is orphaned: it neither imports nor is imported by any project file`
+                : `Module '${fileName}' ${reason}`,
+            confidence: category === 'test-only' ? 'low' : 'medium',
+            category
+        };
+    }
+
+    setCssUsageIndex(index: CssUsageIndex | undefined): void {
+        this.cssUsageIndex = index;
+    }
+
     async analyzeFile(filePath: string, rootPath: string): Promise<DeadCodeIssue[]> {
         const fileStartTime = performance.now();
-        const issues: DeadCodeIssue[] = [];
+        let issues: DeadCodeIssue[] = [];
         
         if (!filePath || !rootPath) {
             console.warn('Invalid file path or root path provided to analyzeFile');
@@ -66,7 +205,9 @@ export class DeadCodeAnalyzer {
             
             this.resetRegexState();
             
-            if (this.isJavaScriptFile(filePath)) {
+            if (AstAnalyzer.supports(filePath)) {
+                issues.push(...await this.analyzeSourceFile(content, filePath, relativePath));
+            } else if (this.isJavaScriptFile(filePath)) {
                 issues.push(...await this.analyzeJavaScriptFile(content, filePath, relativePath));
             } else if (this.isReactFile(filePath)) {
                 issues.push(...await this.analyzeReactFile(content, filePath, relativePath));
@@ -75,6 +216,7 @@ export class DeadCodeAnalyzer {
             } else {
                 console.log(`Unsupported file type: ${filePath}`);
             }
+            issues = filterSuppressed(issues, content, filePath, issue => issue.name);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error(`Error analyzing file ${filePath}: ${errorMessage}`);
@@ -99,6 +241,17 @@ export class DeadCodeAnalyzer {
         return issues;
     }
 
+    private async analyzeSourceFile(content: string, filePath: string, relativePath: string): Promise<DeadCodeIssue[]> {
+        try {
+            return this.astAnalyzer.findDeadCode(content, filePath, relativePath);
+        } catch (error) {
+            console.warn(`AST analysis failed for ${filePath}, falling back to pattern matching:`, error);
+        }
+        return this.isReactFile(filePath)
+            ? this.analyzeReactFile(content, filePath, relativePath)
+            : this.analyzeJavaScriptFile(content, filePath, relativePath);
+    }
+
     private resetRegexState(): void {
         this.importRegex.lastIndex = 0;
         this.functionRegex.lastIndex = 0;
@@ -134,8 +287,7 @@ export class DeadCodeAnalyzer {
 
     private async analyzeCSSFile(content: string, filePath: string, relativePath: string): Promise<DeadCodeIssue[]> {
         const issues: DeadCodeIssue[] = [];
-        const lines = content.split('\n');
-        issues.push(...this.findUnusedCSSSelectors(content, filePath, relativePath, lines));
+        issues.push(...await this.findUnusedCSSSelectors(content, filePath, relativePath));
         return issues;
     }
 
@@ -266,7 +418,7 @@ export class DeadCodeAnalyzer {
         while ((match = this.componentRegex.exec(content)) !== null) {
             const componentName = match[1];
             const lineNumber = content.substring(0, match.index).split('\n').length;
-            if (!this.isComponentUsed(componentName, content)) {
+            if (!this.isComponentUsed(componentName, content, filePath)) {
                 issues.push({
                     type: 'unused-component',
                     filePath,
@@ -283,87 +435,55 @@ export class DeadCodeAnalyzer {
         return issues;
     }
 
-    private findUnusedCSSSelectors(content: string, filePath: string, relativePath: string, lines: string[]): DeadCodeIssue[] {
+    private async findUnusedCSSSelectors(content: string, filePath: string, relativePath: string): Promise<DeadCodeIssue[]> {
         const issues: DeadCodeIssue[] = [];
-        
-        const classRegex = /\.([a-zA-Z_-][a-zA-Z0-9_-]*)\s*\{/gm;
-        const idRegex = /#([a-zA-Z_-][a-zA-Z0-9_-]*)\s*\{/gm;
-        
-        let match;
-        while ((match = classRegex.exec(content)) !== null) {
-            const className = match[1];
-            const lineNumber = content.substring(0, match.index).split('\n').length;
-            
-            if (!this.isCSSClassUsed(className, filePath)) {
-                issues.push({
-                    type: 'unused-variable',
-                    filePath,
-                    relativePath,
-                    line: lineNumber,
-                    column: match.index - content.lastIndexOf('\n', match.index) + 1,
-                    name: className,
-                    description: `CSS class '${className}' appears to be unused`,
-                    confidence: 'medium',
-                    category: 'dead-code'
-                });
-            }
+        const usageIndex = await this.getCssUsageIndex(filePath);
+        if (!usageIndex) {
+            return issues;
         }
-        
-        while ((match = idRegex.exec(content)) !== null) {
-            const idName = match[1];
-            const lineNumber = content.substring(0, match.index).split('\n').length;
-            
-            if (!this.isCSSIdUsed(idName, filePath)) {
-                issues.push({
-                    type: 'unused-variable',
-                    filePath,
-                    relativePath,
-                    line: lineNumber,
-                    column: match.index - content.lastIndexOf('\n', match.index) + 1,
-                    name: idName,
-                    description: `CSS ID '${idName}' appears to be unused`,
-                    confidence: 'medium',
-                    category: 'dead-code'
-                });
+
+        const reported = new Set<string>();
+        for (const selector of extractSelectors(content, filePath)) {
+            const key = `${selector.kind}:${selector.name}`;
+            if (reported.has(key)) {
+                continue;
+            }
+            const used = selector.kind === 'class' ? usageIndex.isClassUsed(selector.name) : usageIndex.isIdUsed(selector.name);
+            if (used) {
+                continue;
             }
+            reported.add(key);
+            issues.push({
+                type: 'unused-selector',
+                filePath,
+                relativePath,
+                line: selector.line,
+                column: selector.column,
+                endLine: selector.endLine,
+                endColumn: selector.endColumn,
+                name: selector.kind === 'class' ? `.${selector.name}` : `#${selector.name}`,
+                description: selector.kind === 'class'
+                    ? `CSS class '${selector.name}' is not referenced by any script or markup file`
+                    : `CSS ID '${selector.name}' is not referenced by any script or markup file`,
+                confidence: 'medium',
+                category: 'dead-code'
+            });
         }
-        
+
         return issues;
     }
 
-    private isCSSClassUsed(className: string, cssFilePath: string): boolean {
-        try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders || workspaceFolders.length === 0) {
-                return true;
-            }
-            
-            const htmlJsPatterns = [
-                new RegExp(`class[\\s]*=[\\s]*["'][^"']*\\b${this.escapeRegex(className)}\\b[^"']*["']`, 'g'),
-                new RegExp(`className[\\s]*=[\\s]*["'][^"']*\\b${this.escapeRegex(className)}\\b[^"']*["']`, 'g'),
-                new RegExp(`\\b${this.escapeRegex(className)}\\b`, 'g')
-            ];
-            
-            return true;
-        } catch (error: unknown) {
-            console.warn(`Error checking CSS class usage: ${error instanceof Error ? error.message : String(error)}`);
-            return true;
+    /** Single-file analysis has no index handed to it, so build one for the file's workspace folder. */
+    private async getCssUsageIndex(filePath: string): Promise<CssUsageIndex | undefined> {
+        if (this.cssUsageIndex) {
+            return this.cssUsageIndex;
         }
-    }
-
-    private isCSSIdUsed(idName: string, cssFilePath: string): boolean {
-        try {
-            const htmlJsPatterns = [
-                new RegExp(`id[\\s]*=[\\s]*["'][^"']*\\b${this.escapeRegex(idName)}\\b[^"']*["']`, 'g'),
-                new RegExp(`getElementById\\s*\\([\\s]*["']${this.escapeRegex(idName)}["']`, 'g'),
-                new RegExp(`#${this.escapeRegex(idName)}\\b`, 'g')
-            ];
-            
-            return true;
-        } catch (error: unknown) {
-            console.warn(`Error checking CSS ID usage: ${error instanceof Error ? error.message : String(error)}`);
-            return true;
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (!folder) {
+            return undefined;
         }
+        const files = await new ProjectFileCollector().collectProjectFiles([folder]);
+        return CssUsageIndex.build(files);
     }
 
     private isImportUsed(importName: string, content: string): boolean {
@@ -383,9 +503,7 @@ export class DeadCodeAnalyzer {
             return true;
         }
         
-        this.exportRegex.lastIndex = 0;
-        const isExported = this.exportRegex.test(content) && content.includes(cleanName);
-        if (isExported) {
+        if (this.isExported(cleanName, content, filePath)) {
             return true;
         }
         
@@ -415,15 +533,13 @@ export class DeadCodeAnalyzer {
         return usageRegex.test(withoutDeclaration);
     }
 
-    private isComponentUsed(componentName: string, content: string): boolean {
+    private isComponentUsed(componentName: string, content: string, filePath: string): boolean {
         const cleanName = componentName.trim();
         if (!cleanName) {
             return true;
         }
         
-        this.exportRegex.lastIndex = 0;
-        const isExported = this.exportRegex.test(content) && content.includes(cleanName);
-        if (isExported) {
+        if (this.isExported(cleanName, content, filePath)) {
             return true;
         }
         
@@ -436,6 +552,21 @@ export class DeadCodeAnalyzer {
         ));
     }
 
+    private isExported(name: string, content: string, filePath: string): boolean {
+        const escaped = this.escapeRegex(name);
+        // CommonJS exports aren't part of the reference graph, keep treating them as used
+        if (new RegExp(`(?:module\\.)?exports\\.${escaped}\\s*=`).test(content)) {
+            return true;
+        }
+        if (this.referenceGraph?.getModule(filePath)) {
+            return this.referenceGraph.isExported(filePath, name);
+        }
+
+        return new RegExp(`export\\s+(?:default\\s+)?(?:async\\s+)?(?:function\\*?|const|let|var|class)\\s+${escaped}\\b`).test(content)
+            || new RegExp(`export\\s*\\{[^}]*\\b${escaped}\\b[^}]*\\}`).test(content)
+            || new RegExp(`export\\s+default\\s+${escaped}\\b`).test(content);
+    }
+
     private escapeRegex(str: string): string {
         return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     }
@@ -455,13 +586,111 @@ export class DeadCodeAnalyzer {
         return ['.css', '.scss', '.sass', '.less'].includes(ext);
     }
 
-    startRuntimeMonitoring(): void {
-        
-        console.log('Runtime monitoring started (not implemented yet)');
+    /**
+     * Loads coverage from the whatTheCode.coverage.paths of each folder and from
+     * NODE_V8_COVERAGE. Returns the files and directories that were read.
+     */
+    async loadRuntimeCoverage(rootPaths: string[]): Promise<string[]> {
+        this.clearRuntimeCoverage();
+        const reader = new CoverageReader();
+        for (const rootPath of rootPaths) {
+            const config = vscode.workspace.getConfiguration('whatTheCode.coverage', vscode.Uri.file(rootPath));
+            if (!config.get<boolean>('enabled', true)) {
+                continue;
+            }
+            for (const coveragePath of config.get<string[]>('paths', DEFAULT_COVERAGE_PATHS)) {
+                await reader.load(path.resolve(rootPath, coveragePath), rootPath);
+            }
+        }
+        if (process.env.NODE_V8_COVERAGE && rootPaths.length > 0) {
+            await reader.load(process.env.NODE_V8_COVERAGE, rootPaths[0]);
+        }
+
+        for (const [filePath, fileCoverage] of reader.getFiles()) {
+            this.coverage.set(filePath, fileCoverage);
+            const isReactFile = this.isReactFile(filePath);
+            fileCoverage.functions.forEach((hits, name) => {
+                if (hits > 0) {
+                    this.runtimeStats.executedFunctions.add(`${filePath}#${name}`);
+                    if (isReactFile && /^[A-Z]/.test(name)) {
+                        this.runtimeStats.componentUsage.set(name, (this.runtimeStats.componentUsage.get(name) || 0) + hits);
+                    }
+                }
+            });
+            fileCoverage.lines.forEach((hits, line) => {
+                if (hits > 0) {
+                    this.runtimeStats.executedLines.add(`${filePath}:${line}`);
+                }
+            });
+        }
+        return reader.getSources();
+    }
+
+    hasRuntimeCoverage(filePath: string): boolean {
+        return this.coverage.has(path.resolve(filePath));
     }
 
-    stopRuntimeMonitoring(): void {
-        console.log('Runtime monitoring stopped');
+    clearRuntimeCoverage(): void {
+        this.coverage.clear();
+        this.runtimeStats.executedFunctions.clear();
+        this.runtimeStats.executedLines.clear();
+        this.runtimeStats.componentUsage.clear();
+    }
+
+    /**
+     * Merges loaded coverage into static findings. Unreferenced code that never
+     * ran becomes high confidence; functions that ran are dropped since something
+     * calls them in a way static analysis can't see, other findings that ran are
+     * downgraded. Test-only findings are left alone, tests are what ran them.
+     */
+    applyRuntimeCoverage(issues: DeadCodeIssue[]): DeadCodeIssue[] {
+        if (this.coverage.size === 0) {
+            return issues;
+        }
+
+        const merged: DeadCodeIssue[] = [];
+        for (const issue of issues) {
+            const hits = issue.category === 'test-only' ? undefined : this.getRuntimeHits(issue);
+            if (hits === undefined) {
+                merged.push(issue);
+            } else if (hits === 0) {
+                merged.push({ ...issue, runtimeHits: 0, confidence: 'high', description: `${issue.description} and never ran under coverage` });
+            } else if (issue.type !== 'unused-function' && issue.type !== 'unused-component') {
+                merged.push({ ...issue, runtimeHits: hits, confidence: 'low', description: `${issue.description}, but ran ${hits} time(s) under coverage` });
+            }
+        }
+        return merged;
+    }
+
+    /** Undefined when the coverage says nothing about the issue. */
+    private getRuntimeHits(issue: DeadCodeIssue): number | undefined {
+        const fileCoverage = this.coverage.get(path.resolve(issue.filePath));
+        if (!fileCoverage) {
+            return undefined;
+        }
+
+        switch (issue.type) {
+            case 'unused-module':
+            case 'orphan-file':
+                return Math.max(0, ...fileCoverage.lines.values(), ...fileCoverage.functions.values());
+            case 'unused-function':
+            case 'unused-component':
+            case 'unused-export': {
+                // A declaration's own line also runs when the module loads, only its body shows calls
+                let bodyInstrumented = false;
+                const lastLine = issue.declaration ? issue.declaration.endLine : (issue.endLine || 0) - 1;
+                for (let line = issue.line + 1; line <= lastLine; line++) {
+                    const lineHits = fileCoverage.lines.get(line);
+                    if (lineHits) {
+                        return Math.max(lineHits, fileCoverage.functions.get(issue.name) || 0);
+                    }
+                    bodyInstrumented = bodyInstrumented || lineHits === 0;
+                }
+                return fileCoverage.functions.get(issue.name) ?? (bodyInstrumented ? 0 : undefined);
+            }
+            default:
+                return undefined;
+        }
     }
 
     getRuntimeStats(): RuntimeStats {
@@ -473,8 +702,7 @@ export class DeadCodeAnalyzer {
     }
 
     dispose(): void {
-        this.instrumentedFiles.clear();
-        this.originalContent.clear();
+        this.coverage.clear();
         this.performanceMonitor.dispose();
     }
 
@@ -0,0 +1,721 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DeadCodeIssue, Removal, SourceRange } from './analyzeDeadCode';
+import { CodeQualityMetrics, RefactoringRecommendation, TypeSafetyIssue } from './codeQualityAnalyzer';
+
+interface ParsedFile {
+    filePath: string;
+    content: string;
+    sourceFile: ts.SourceFile;
+    checker?: ts.TypeChecker;
+}
+
+type FunctionWithBody = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+type ReportIssue = (
+    type: DeadCodeIssue['type'],
+    node: ts.Node,
+    name: string,
+    description: string,
+    confidence: DeadCodeIssue['confidence'],
+    declaration?: ts.Node,
+    removal?: Removal
+) => void;
+
+const SUPPORTED_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/**
+ * Dead code and quality analysis on the TypeScript syntax tree (JS/JSX too),
+ * so strings, comments, destructuring and class members are handled properly.
+ * Produces the same shapes as the regex-based analyzers, with exact ranges.
+ */
+export class AstAnalyzer {
+    private readonly functionLengthThreshold = 50;
+    private readonly allowedNumbers = new Set([-1, 0, 1, 2, 100]);
+    private lastParsed?: ParsedFile;
+
+    static supports(filePath: string): boolean {
+        return SUPPORTED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+    }
+
+    findDeadCode(content: string, filePath: string, relativePath: string): DeadCodeIssue[] {
+        const parsed = this.parse(content, filePath);
+        const { sourceFile } = parsed;
+        if (sourceFile.isDeclarationFile) {
+            return [];
+        }
+
+        const checker = this.getChecker(parsed);
+        const occurrences = this.collectOccurrences(sourceFile, checker);
+        const isReactFile = ['.jsx', '.tsx'].includes(path.extname(filePath).toLowerCase());
+        const hasJsx = this.containsJsx(sourceFile);
+        const issues: DeadCodeIssue[] = [];
+
+        const isReferenced = (...symbols: (ts.Symbol | undefined)[]): boolean => symbols.some(symbol => {
+            if (!symbol) {
+                return false;
+            }
+            const declarationNames = new Set<ts.Node | undefined>((symbol.declarations || []).map(declaration => ts.getNameOfDeclaration(declaration)));
+            return (occurrences.get(symbol) || []).some(occurrence => !declarationNames.has(occurrence));
+        });
+        const isUnused = (name: ts.Identifier | ts.PrivateIdentifier): boolean => {
+            const symbol = checker.getSymbolAtLocation(name);
+            // Without a symbol we can't tell, so err on the side of "used"
+            return !!symbol && !isReferenced(symbol);
+        };
+        const report: ReportIssue = (type, node, name, description, confidence, declaration, removal) => {
+            issues.push({
+                type,
+                filePath,
+                relativePath,
+                ...this.getRange(sourceFile, node),
+                ...declaration ? { declaration: this.getRange(sourceFile, declaration) } : {},
+                ...removal ? { removal } : {},
+                name,
+                description,
+                confidence,
+                category: 'dead-code'
+            });
+        };
+
+        const visit = (node: ts.Node): void => {
+            if (this.hasModifier(node, ts.SyntaxKind.DeclareKeyword)) {
+                return;
+            }
+
+            if (ts.isImportDeclaration(node) && node.importClause && ts.isStringLiteral(node.moduleSpecifier)) {
+                const modulePath = node.moduleSpecifier.text;
+                const { name, namedBindings } = node.importClause;
+                // Classic JSX runtime compiles <div/> to React.createElement
+                const isImplicitlyUsed = (identifier: ts.Identifier) => hasJsx && identifier.text === 'React';
+                const namespace = namedBindings && ts.isNamespaceImport(namedBindings) ? namedBindings : undefined;
+                const elements = namedBindings && ts.isNamedImports(namedBindings) ? [...namedBindings.elements] : [];
+
+                const unusedDefault = !!name && !isImplicitlyUsed(name) && isUnused(name);
+                const unusedNamespace = !!namespace && !isImplicitlyUsed(namespace.name) && isUnused(namespace.name);
+                const unusedElements = elements.filter(element => isUnused(element.name));
+                const allUnused = (!name || unusedDefault) && (!namespace || unusedNamespace) && unusedElements.length === elements.length;
+                const statement = this.getRemoval(sourceFile, node.getStart(sourceFile, true), node.getEnd(), true);
+
+                // With another binding left, `Default, ` or `, * as ns` / `, { ... }` goes instead of the statement
+                if (name && unusedDefault) {
+                    const removal = allUnused ? statement : this.getRemoval(sourceFile, name.getStart(sourceFile), namedBindings!.getStart(sourceFile), false);
+                    report('unused-import', name, name.text, `Unused default import '${name.text}' from '${modulePath}'`, 'high', undefined, removal);
+                }
+                if (namespace && unusedNamespace) {
+                    const removal = allUnused ? statement : this.getRemoval(sourceFile, name!.getEnd(), namespace.getEnd(), false);
+                    report('unused-import', namespace, namespace.name.text, `Unused namespace import '${namespace.name.text}' from '${modulePath}'`, 'high', undefined, removal);
+                }
+                for (const element of unusedElements) {
+                    const index = elements.indexOf(element);
+                    const removal = allUnused
+                        ? statement
+                        : unusedElements.length === elements.length
+                            ? this.getRemoval(sourceFile, name!.getEnd(), namedBindings!.getEnd(), false)
+                            // The specifier with the comma after it, or before it for the last one
+                            : index < elements.length - 1
+                                ? this.getRemoval(sourceFile, element.getStart(sourceFile), elements[index + 1].getStart(sourceFile), false)
+                                : this.getRemoval(sourceFile, elements[index - 1].getEnd(), element.getEnd(), false);
+                    report('unused-import', element, element.name.text, `Unused named import '${element.name.text}' from '${modulePath}'`, 'high', undefined, removal);
+                }
+                return;
+            }
+
+            if (ts.isFunctionDeclaration(node) && node.name && node.body && !this.isExported(node) && isUnused(node.name)) {
+                const name = node.name.text;
+                // Overload signatures would be left behind without their implementation
+                const removal = checker.getSymbolAtLocation(node.name)?.declarations?.length === 1
+                    ? this.getRemoval(sourceFile, node.getStart(sourceFile, true), node.getEnd(), true)
+                    : undefined;
+                if (isReactFile && this.isComponentName(name)) {
+                    report('unused-component', node.name, name, `React component '${name}' appears to be unused`, 'medium', node, removal);
+                } else {
+                    report('unused-function', node.name, name, `Function '${name}' appears to be unused`, 'medium', node, removal);
+                }
+            } else if (ts.isVariableStatement(node) && !this.isExported(node)) {
+                for (const declaration of node.declarationList.declarations) {
+                    this.checkVariableDeclaration(declaration, isReactFile, isUnused, report);
+                }
+            } else if (ts.isVariableDeclarationList(node) && !ts.isVariableStatement(node.parent)
+                && !ts.isForOfStatement(node.parent) && !ts.isForInStatement(node.parent)) {
+                // `for (let i = 0, unused = 1; ...)`
+                node.declarations.forEach(declaration => this.checkVariableDeclaration(declaration, isReactFile, isUnused, report));
+            } else if (ts.isClassLike(node)) {
+                this.checkPrivateMembers(node, checker, isUnused, isReferenced, report);
+            }
+
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+
+        return issues;
+    }
+
+    analyzeCodeQuality(content: string, filePath: string): Omit<CodeQualityMetrics, 'duplicateCodeBlocks'> {
+        const parsed = this.parse(content, filePath);
+        const { sourceFile } = parsed;
+        const functions = this.collectFunctions(sourceFile);
+
+        const complexities = functions.map(fn => this.calculateComplexity(fn));
+        const longFunctions = functions.filter(fn => {
+            const start = sourceFile.getLineAndCharacterOfPosition(fn.getStart(sourceFile)).line;
+            const end = sourceFile.getLineAndCharacterOfPosition(fn.getEnd()).line;
+            return end - start + 1 > this.functionLengthThreshold;
+        }).length;
+
+        return {
+            typesCoverage: this.calculateTypesCoverage(sourceFile),
+            functionComplexity: complexities.length > 0 ? complexities.reduce((sum, value) => sum + value, 0) / complexities.length : 0,
+            unusedParameters: this.findUnusedParameters(parsed, functions).length,
+            magicNumbers: this.findMagicNumbers(sourceFile).length,
+            longFunctions
+        };
+    }
+
+    findTypeSafetyIssues(content: string, filePath: string): TypeSafetyIssue[] {
+        const { sourceFile } = this.parse(content, filePath);
+        const isTypeScript = !this.isJavaScript(filePath);
+        const issues: TypeSafetyIssue[] = [];
+
+        const visit = (node: ts.Node): void => {
+            if (node.kind === ts.SyntaxKind.AnyKeyword) {
+                issues.push({
+                    type: 'any-usage',
+                    filePath,
+                    ...this.getRange(sourceFile, node),
+                    message: 'Avoid using "any" type',
+                    severity: 'warning',
+                    suggestion: 'Consider using specific types or generic constraints'
+                });
+            } else if (ts.isBinaryExpression(node) && this.isLooseEquality(node)) {
+                const operator = node.operatorToken.getText(sourceFile);
+                issues.push({
+                    type: 'loose-equality',
+                    filePath,
+                    ...this.getRange(sourceFile, node.operatorToken),
+                    message: 'Use strict equality operators (=== or !==)',
+                    severity: 'warning',
+                    suggestion: `Replace ${operator} with ${operator === '==' ? '===' : '!=='}`
+                });
+            } else if (isTypeScript && ts.isParameter(node) && !this.isParameterTyped(node) && !this.isAmbient(node)) {
+                issues.push({
+                    type: 'missing-type',
+                    filePath,
+                    ...this.getRange(sourceFile, node),
+                    message: `Parameter '${node.name.getText(sourceFile)}' is missing a type annotation`,
+                    severity: 'info',
+                    suggestion: 'Add explicit type annotations to parameters'
+                });
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+
+        return issues;
+    }
+
+    generateRefactoringRecommendations(content: string, filePath: string): RefactoringRecommendation[] {
+        const { sourceFile } = this.parse(content, filePath);
+        const recommendations: RefactoringRecommendation[] = [];
+        const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+        const visit = (node: ts.Node): void => {
+            const condition = this.getCondition(node);
+            if (condition && this.countLogicalOperators(condition) > 2) {
+                recommendations.push({
+                    type: 'simplify-condition',
+                    filePath,
+                    line: lineOf(condition),
+                    severity: 'medium',
+                    description: 'Complex conditional expression could be simplified',
+                    estimatedImpact: 'readability',
+                    autoFixAvailable: false
+                });
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+
+        const magicNumberLines = new Set(this.findMagicNumbers(sourceFile).map(lineOf));
+        magicNumberLines.forEach(line => recommendations.push({
+            type: 'extract-function',
+            filePath,
+            line,
+            severity: 'low',
+            description: 'Magic number detected, consider extracting to named constant',
+            estimatedImpact: 'maintainability',
+            autoFixAvailable: true
+        }));
+
+        return recommendations.sort((a, b) => a.line - b.line);
+    }
+
+    /** Blanks out comments but keeps line breaks, so line-based checks line up with the original. */
+    stripComments(content: string, filePath: string): string {
+        const { sourceFile } = this.parse(content, filePath);
+        const ranges = new Map<number, number>();
+        const collect = (node: ts.Node): void => {
+            [...ts.getLeadingCommentRanges(content, node.pos) || [], ...ts.getTrailingCommentRanges(content, node.end) || []]
+                .forEach(range => ranges.set(range.pos, range.end));
+            node.getChildren(sourceFile).forEach(collect);
+        };
+        collect(sourceFile);
+
+        let stripped = content;
+        for (const [start, end] of ranges) {
+            stripped = stripped.substring(0, start) + stripped.substring(start, end).replace(/[^\r\n]/g, ' ') + stripped.substring(end);
+        }
+        return stripped;
+    }
+
+    private checkVariableDeclaration(
+        declaration: ts.VariableDeclaration,
+        isReactFile: boolean,
+        isUnused: (name: ts.Identifier) => boolean,
+        report: ReportIssue
+    ): void {
+        if (ts.isCatchClause(declaration.parent)) {
+            return;
+        }
+
+        if (ts.isIdentifier(declaration.name)) {
+            const name = declaration.name.text;
+            if (name.startsWith('_') || !isUnused(declaration.name)) {
+                return;
+            }
+            const initializer = declaration.initializer && this.skipParentheses(declaration.initializer);
+            // Only a statement declaring just this, and whose initializer does nothing when it runs, can go as a whole
+            const statement = declaration.parent.parent;
+            const removal = ts.isVariableStatement(statement) && declaration.parent.declarations.length === 1
+                && (!declaration.initializer || this.isSideEffectFree(declaration.initializer))
+                ? this.getRemoval(statement.getSourceFile(), statement.getStart(statement.getSourceFile(), true), statement.getEnd(), true)
+                : undefined;
+            if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+                if (isReactFile && this.isComponentName(name)) {
+                    report('unused-component', declaration.name, name, `React component '${name}' appears to be unused`, 'medium', declaration, removal);
+                } else {
+                    const kind = ts.isArrowFunction(initializer) ? 'Arrow function' : 'Function';
+                    report('unused-function', declaration.name, name, `${kind} '${name}' appears to be unused`, 'medium', declaration, removal);
+                }
+            } else {
+                report('unused-variable', declaration.name, name, `Variable '${name}' appears to be unused`, 'medium', undefined, removal);
+            }
+            return;
+        }
+
+        for (const identifier of this.getBindingIdentifiers(declaration.name)) {
+            if (!identifier.text.startsWith('_') && isUnused(identifier)) {
+                report('unused-variable', identifier, identifier.text, `Destructured variable '${identifier.text}' appears to be unused`, 'medium');
+            }
+        }
+    }
+
+    private checkPrivateMembers(
+        node: ts.ClassLikeDeclaration,
+        checker: ts.TypeChecker,
+        isUnused: (name: ts.Identifier | ts.PrivateIdentifier) => boolean,
+        isReferenced: (...symbols: (ts.Symbol | undefined)[]) => boolean,
+        report: ReportIssue
+    ): void {
+        for (const member of node.members) {
+            if (ts.isConstructorDeclaration(member)) {
+                for (const parameter of member.parameters) {
+                    if (!this.hasModifier(parameter, ts.SyntaxKind.PrivateKeyword) || !ts.isIdentifier(parameter.name)) {
+                        continue;
+                    }
+                    const [parameterSymbol, propertySymbol] = checker.getSymbolsOfParameterPropertyDeclaration(parameter, parameter.name.text);
+                    if (!isReferenced(parameterSymbol, propertySymbol)) {
+                        report('unused-variable', parameter.name, parameter.name.text, `Private property '${parameter.name.text}' is never used`, 'medium');
+                    }
+                }
+                continue;
+            }
+
+            const name = member.name;
+            const isPrivate = !!name && (ts.isPrivateIdentifier(name) || this.hasModifier(member, ts.SyntaxKind.PrivateKeyword));
+            if (!name || !isPrivate || (ts.canHaveDecorators(member) && ts.getDecorators(member)?.length)) {
+                continue;
+            }
+            if (!(ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) || !isUnused(name)) {
+                continue;
+            }
+            const sourceFile = member.getSourceFile();
+            const removal = this.getRemoval(sourceFile, member.getStart(sourceFile, true), member.getEnd(), true);
+            if (ts.isMethodDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+                // Overloads and get/set pairs share a name, removing one declaration would leave the rest broken
+                const isSingle = checker.getSymbolAtLocation(name)?.declarations?.length === 1;
+                report('unused-function', name, name.text, `Private method '${name.text}' is never used`, 'medium', member, isSingle ? removal : undefined);
+            } else if (ts.isPropertyDeclaration(member)) {
+                const isSafe = !member.initializer || this.isSideEffectFree(member.initializer);
+                report('unused-variable', name, name.text, `Private property '${name.text}' is never used`, 'medium', undefined, isSafe ? removal : undefined);
+            }
+        }
+    }
+
+    private collectOccurrences(sourceFile: ts.SourceFile, checker: ts.TypeChecker): Map<ts.Symbol, ts.Node[]> {
+        const occurrences = new Map<ts.Symbol, ts.Node[]>();
+        const visit = (node: ts.Node): void => {
+            if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+                const symbol = this.resolveSymbol(node, checker);
+                if (symbol) {
+                    const nodes = occurrences.get(symbol) || [];
+                    nodes.push(node);
+                    occurrences.set(symbol, nodes);
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        return occurrences;
+    }
+
+    private resolveSymbol(node: ts.Identifier | ts.PrivateIdentifier, checker: ts.TypeChecker): ts.Symbol | undefined {
+        const parent = node.parent;
+        if (ts.isShorthandPropertyAssignment(parent) && parent.name === node) {
+            return checker.getShorthandAssignmentValueSymbol(parent);
+        }
+        if (ts.isExportSpecifier(parent) && !parent.parent.parent.moduleSpecifier) {
+            return checker.getExportSpecifierLocalTargetSymbol(parent);
+        }
+        return checker.getSymbolAtLocation(node);
+    }
+
+    private collectFunctions(sourceFile: ts.SourceFile): FunctionWithBody[] {
+        const functions: FunctionWithBody[] = [];
+        const visit = (node: ts.Node): void => {
+            if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+                functions.push(node as FunctionWithBody);
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        return functions;
+    }
+
+    private calculateComplexity(fn: FunctionWithBody): number {
+        let complexity = 1;
+        const visit = (node: ts.Node): void => {
+            // Nested functions are scored on their own
+            if (node !== fn && ts.isFunctionLike(node)) {
+                return;
+            }
+            switch (node.kind) {
+                case ts.SyntaxKind.IfStatement:
+                case ts.SyntaxKind.ConditionalExpression:
+                case ts.SyntaxKind.ForStatement:
+                case ts.SyntaxKind.ForInStatement:
+                case ts.SyntaxKind.ForOfStatement:
+                case ts.SyntaxKind.WhileStatement:
+                case ts.SyntaxKind.DoStatement:
+                case ts.SyntaxKind.CaseClause:
+                case ts.SyntaxKind.CatchClause:
+                    complexity++;
+                    break;
+                case ts.SyntaxKind.BinaryExpression:
+                    if (this.isLogicalOperator((node as ts.BinaryExpression).operatorToken.kind)) {
+                        complexity++;
+                    }
+                    break;
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(fn);
+        return complexity;
+    }
+
+    private calculateTypesCoverage(sourceFile: ts.SourceFile): number {
+        let total = 0;
+        let typed = 0;
+        const visit = (node: ts.Node): void => {
+            if (ts.isVariableDeclaration(node) && !ts.isCatchClause(node.parent)
+                && !ts.isForOfStatement(node.parent.parent) && !ts.isForInStatement(node.parent.parent)) {
+                total++;
+                if (node.type || node.initializer || ts.getJSDocType(node)) {
+                    typed++;
+                }
+            } else if (ts.isParameter(node) && !(ts.isIdentifier(node.name) && node.name.text === 'this')) {
+                total++;
+                if (this.isParameterTyped(node)) {
+                    typed++;
+                }
+            } else if (ts.isPropertyDeclaration(node)) {
+                total++;
+                if (node.type || node.initializer || ts.getJSDocType(node)) {
+                    typed++;
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        return total > 0 ? (typed / total) * 100 : 100;
+    }
+
+    private isParameterTyped(parameter: ts.ParameterDeclaration): boolean {
+        if (parameter.type || parameter.initializer || ts.getJSDocType(parameter)) {
+            return true;
+        }
+        if (ts.isIdentifier(parameter.name) && parameter.name.text === 'this') {
+            return true;
+        }
+        // Callbacks passed inline get their parameter types from the call site
+        const fn = parameter.parent;
+        if (!ts.isArrowFunction(fn) && !ts.isFunctionExpression(fn)) {
+            return false;
+        }
+        const parent = this.skipOuterParentheses(fn).parent;
+        return ts.isCallOrNewExpression(parent) || ts.isJsxExpression(parent) || ts.isPropertyAssignment(parent)
+            || ts.isReturnStatement(parent) || (ts.isVariableDeclaration(parent) && !!parent.type)
+            || ts.isArrayLiteralExpression(parent) || ts.isAsExpression(parent) || ts.isSatisfiesExpression(parent);
+    }
+
+    private findUnusedParameters(parsed: ParsedFile, functions: FunctionWithBody[]): ts.Identifier[] {
+        const checker = this.getChecker(parsed);
+        const occurrences = this.collectOccurrences(parsed.sourceFile, checker);
+        const unused: ts.Identifier[] = [];
+
+        for (const fn of functions) {
+            const names = fn.parameters
+                .filter(parameter => !ts.canHaveModifiers(parameter) || !ts.getModifiers(parameter)?.length)
+                .flatMap(parameter => this.getBindingIdentifiers(parameter.name))
+                .filter(name => name.text !== 'this');
+            // Like ESLint's "after-used": earlier parameters are needed to reach the later ones
+            for (let i = names.length - 1; i >= 0; i--) {
+                const symbol = checker.getSymbolAtLocation(names[i]);
+                const used = !symbol || (occurrences.get(symbol) || []).some(occurrence => occurrence !== names[i]);
+                if (used) {
+                    break;
+                }
+                if (!names[i].text.startsWith('_')) {
+                    unused.push(names[i]);
+                }
+            }
+        }
+        return unused;
+    }
+
+    private findMagicNumbers(sourceFile: ts.SourceFile): ts.NumericLiteral[] {
+        const numbers: ts.NumericLiteral[] = [];
+        const visit = (node: ts.Node): void => {
+            if (ts.isNumericLiteral(node)) {
+                const negated = ts.isPrefixUnaryExpression(node.parent) && node.parent.operator === ts.SyntaxKind.MinusToken;
+                const value = Number(node.text) * (negated ? -1 : 1);
+                if (!this.allowedNumbers.has(value) && !this.isNamedNumber(negated ? node.parent : node)) {
+                    numbers.push(node);
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        return numbers;
+    }
+
+    /** Numbers that already have a name: const initializers, enum members, readonly fields, literal types and indexes. */
+    private isNamedNumber(node: ts.Node): boolean {
+        const parent = node.parent;
+        if (ts.isEnumMember(parent) || ts.isLiteralTypeNode(parent)) {
+            return true;
+        }
+        if (ts.isElementAccessExpression(parent) && parent.argumentExpression === node) {
+            return true;
+        }
+        if (ts.isVariableDeclaration(parent) && parent.initializer === node) {
+            return (ts.getCombinedNodeFlags(parent) & ts.NodeFlags.Const) !== 0;
+        }
+        if (ts.isPropertyDeclaration(parent) && parent.initializer === node) {
+            return this.hasModifier(parent, ts.SyntaxKind.ReadonlyKeyword);
+        }
+        return false;
+    }
+
+    private getCondition(node: ts.Node): ts.Expression | undefined {
+        if (ts.isIfStatement(node) || ts.isWhileStatement(node) || ts.isDoStatement(node) || ts.isConditionalExpression(node)) {
+            return ts.isConditionalExpression(node) ? node.condition : node.expression;
+        }
+        if (ts.isForStatement(node)) {
+            return node.condition;
+        }
+        return undefined;
+    }
+
+    private countLogicalOperators(expression: ts.Expression): number {
+        let count = 0;
+        const visit = (node: ts.Node): void => {
+            if (ts.isFunctionLike(node)) {
+                return;
+            }
+            if (ts.isBinaryExpression(node) && this.isLogicalOperator(node.operatorToken.kind)) {
+                count++;
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(expression);
+        return count;
+    }
+
+    private isLogicalOperator(kind: ts.SyntaxKind): boolean {
+        return kind === ts.SyntaxKind.AmpersandAmpersandToken
+            || kind === ts.SyntaxKind.BarBarToken
+            || kind === ts.SyntaxKind.QuestionQuestionToken;
+    }
+
+    private isLooseEquality(node: ts.BinaryExpression): boolean {
+        const kind = node.operatorToken.kind;
+        if (kind !== ts.SyntaxKind.EqualsEqualsToken && kind !== ts.SyntaxKind.ExclamationEqualsToken) {
+            return false;
+        }
+        // `x == null` is the idiomatic null-or-undefined check
+        return node.left.kind !== ts.SyntaxKind.NullKeyword && node.right.kind !== ts.SyntaxKind.NullKeyword;
+    }
+
+    private isExported(node: ts.Node): boolean {
+        return this.hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    }
+
+    private isAmbient(node: ts.Node): boolean {
+        for (let current: ts.Node | undefined = node; current; current = current.parent) {
+            if (this.hasModifier(current, ts.SyntaxKind.DeclareKeyword)) {
+                return true;
+            }
+        }
+        return node.getSourceFile().isDeclarationFile;
+    }
+
+    private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+        return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+    }
+
+    private isComponentName(name: string): boolean {
+        return /^[A-Z]/.test(name);
+    }
+
+    private containsJsx(sourceFile: ts.SourceFile): boolean {
+        const find = (node: ts.Node): boolean =>
+            ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node) || !!ts.forEachChild(node, find);
+        return find(sourceFile);
+    }
+
+    private getBindingIdentifiers(name: ts.BindingName): ts.Identifier[] {
+        if (ts.isIdentifier(name)) {
+            return [name];
+        }
+        // `const { used, ...rest } = obj` leaves `used` out of rest on purpose
+        if (ts.isObjectBindingPattern(name) && name.elements.some(element => element.dotDotDotToken)) {
+            return name.elements.filter(element => element.dotDotDotToken).flatMap(element => this.getBindingIdentifiers(element.name));
+        }
+        return name.elements.flatMap(element =>
+            ts.isOmittedExpression(element) ? [] : this.getBindingIdentifiers(element.name)
+        );
+    }
+
+    /** Literals, identifiers and function expressions, possibly nested in array and object literals. */
+    private isSideEffectFree(expression: ts.Expression): boolean {
+        const node = this.skipParentheses(expression);
+        if (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isTypeAssertionExpression(node) || ts.isNonNullExpression(node)) {
+            return this.isSideEffectFree(node.expression);
+        }
+        if (ts.isPrefixUnaryExpression(node)) {
+            return [ts.SyntaxKind.MinusToken, ts.SyntaxKind.PlusToken, ts.SyntaxKind.ExclamationToken].includes(node.operator) && this.isSideEffectFree(node.operand);
+        }
+        if (ts.isArrayLiteralExpression(node)) {
+            return node.elements.every(element => !ts.isSpreadElement(element) && this.isSideEffectFree(element));
+        }
+        if (ts.isObjectLiteralExpression(node)) {
+            return node.properties.every(property =>
+                ts.isShorthandPropertyAssignment(property)
+                || ts.isMethodDeclaration(property)
+                || (ts.isPropertyAssignment(property) && !ts.isComputedPropertyName(property.name) && this.isSideEffectFree(property.initializer))
+            );
+        }
+        return ts.isLiteralExpression(node)
+            || ts.isIdentifier(node)
+            || ts.isArrowFunction(node)
+            || ts.isFunctionExpression(node)
+            || [ts.SyntaxKind.TrueKeyword, ts.SyntaxKind.FalseKeyword, ts.SyntaxKind.NullKeyword].includes(node.kind);
+    }
+
+    private skipParentheses(node: ts.Expression): ts.Expression {
+        return ts.isParenthesizedExpression(node) ? this.skipParentheses(node.expression) : node;
+    }
+
+    private skipOuterParentheses(node: ts.Node): ts.Node {
+        return ts.isParenthesizedExpression(node.parent) ? this.skipOuterParentheses(node.parent) : node;
+    }
+
+    private isJavaScript(filePath: string): boolean {
+        return ['.js', '.jsx', '.mjs', '.cjs'].includes(path.extname(filePath).toLowerCase());
+    }
+
+    /** A whole statement alone on its lines takes the lines with it, so no blank line is left behind. */
+    private getRemoval(sourceFile: ts.SourceFile, start: number, end: number, wholeStatement: boolean): Removal {
+        const text = sourceFile.text;
+        if (wholeStatement) {
+            const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+            const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+            if (/^[ \t]*$/.test(text.substring(lineStart, start)) && /^[ \t]*\r?$/.test(text.substring(end, lineEnd))) {
+                start = lineStart;
+                end = Math.min(lineEnd + 1, text.length);
+            }
+        }
+        const from = sourceFile.getLineAndCharacterOfPosition(start);
+        const to = sourceFile.getLineAndCharacterOfPosition(end);
+        return { line: from.line + 1, column: from.character + 1, endLine: to.line + 1, endColumn: to.character + 1, wholeStatement };
+    }
+
+    /** Line and column are 1-based; endColumn points just past the last character. */
+    private getRange(sourceFile: ts.SourceFile, node: ts.Node): SourceRange {
+        const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+        return {
+            line: start.line + 1,
+            column: start.character + 1,
+            endLine: end.line + 1,
+            endColumn: end.character + 1
+        };
+    }
+
+    private parse(content: string, filePath: string): ParsedFile {
+        // The quality commands ask for metrics, type issues and recommendations on the same text in a row
+        if (this.lastParsed && this.lastParsed.filePath === filePath && this.lastParsed.content === content) {
+            return this.lastParsed;
+        }
+        const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, this.getScriptKind(filePath));
+        this.lastParsed = { filePath, content, sourceFile };
+        return this.lastParsed;
+    }
+
+    /**
+     * A single-file program is enough to bind local symbols. Imports stay
+     * unresolved, which is fine: we only need to know where names are referenced.
+     */
+    private getChecker(parsed: ParsedFile): ts.TypeChecker {
+        if (parsed.checker) {
+            return parsed.checker;
+        }
+        const options: ts.CompilerOptions = { noLib: true, noResolve: true, allowJs: true, types: [], jsx: ts.JsxEmit.Preserve };
+        const fileName = path.resolve(parsed.filePath);
+        const host: ts.CompilerHost = {
+            getSourceFile: name => path.resolve(name) === fileName ? parsed.sourceFile : undefined,
+            getDefaultLibFileName: () => 'lib.d.ts',
+            writeFile: () => undefined,
+            getCurrentDirectory: () => path.dirname(fileName),
+            getCanonicalFileName: name => name,
+            useCaseSensitiveFileNames: () => true,
+            getNewLine: () => '\n',
+            fileExists: name => path.resolve(name) === fileName,
+            readFile: () => undefined
+        };
+        parsed.checker = ts.createProgram({ rootNames: [fileName], options, host }).getTypeChecker();
+        return parsed.checker;
+    }
+
+    private getScriptKind(filePath: string): ts.ScriptKind {
+        switch (path.extname(filePath).toLowerCase()) {
+            case '.tsx': return ts.ScriptKind.TSX;
+            case '.jsx': return ts.ScriptKind.JSX;
+            case '.js':
+            case '.mjs':
+            case '.cjs': return ts.ScriptKind.JS;
+            default: return ts.ScriptKind.TS;
+        }
+    }
+}
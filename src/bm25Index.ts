@@ -0,0 +1,200 @@
+import * as crypto from 'crypto';
+import { CodeFile, CodeSection, SearchIndex, SearchIndexStats, SearchResult } from './types';
+import { CodeCollector } from './codeCollector';
+import { tokenizeCode } from './codeTokenizer';
+
+interface IndexedSection extends CodeSection {
+	termFrequencies: Map<string, number>;
+	length: number;
+}
+
+interface IndexedFile {
+	hash: string;
+	sections: IndexedSection[];
+}
+
+export class BM25Index implements SearchIndex {
+	readonly name = 'bm25';
+	static readonly PROVIDER_NAME = 'Offline (BM25)';
+
+	private files: Map<string, IndexedFile> = new Map();
+	private documentFrequencies: Map<string, number> = new Map();
+	private sectionCount = 0;
+	private totalLength = 0;
+	private updatedAt: Date | null = null;
+	private codeCollector: CodeCollector;
+
+	constructor(private resolvePath: (relativePath: string) => string, private k1: number = 1.2, private b: number = 0.75) {
+		this.codeCollector = new CodeCollector();
+	}
+
+	update(files: CodeFile[]): { indexed: number; removed: number } {
+		let indexed = 0;
+		const seen = new Set<string>();
+		for (const file of files) {
+			seen.add(file.path);
+			if (this.indexFileSync(file)) {
+				indexed++;
+			}
+		}
+
+		let removed = 0;
+		for (const filePath of Array.from(this.files.keys())) {
+			if (!seen.has(filePath) && this.removeFile(filePath)) {
+				removed++;
+			}
+		}
+		return { indexed, removed };
+	}
+
+	async indexFile(file: CodeFile): Promise<boolean> {
+		return this.indexFileSync(file);
+	}
+
+	removeFile(filePath: string): boolean {
+		const existing = this.files.get(filePath);
+		if (!existing) {
+			return false;
+		}
+		existing.sections.forEach(section => this.removeSectionStats(section));
+		this.files.delete(filePath);
+		this.updatedAt = new Date();
+		return true;
+	}
+
+	getIndexedFiles(): string[] {
+		return Array.from(this.files.keys());
+	}
+
+	getStats(): SearchIndexStats {
+		return {
+			files: this.files.size,
+			chunks: this.sectionCount,
+			updatedAt: this.updatedAt
+		};
+	}
+
+	save(): void {
+		// Postings are rebuilt from the workspace in memory, there is nothing to persist
+	}
+
+	search(query: string, topK: number = 10, include?: (filePath: string) => boolean): SearchResult[] {
+		const queryTerms = Array.from(new Set(tokenizeCode(query, { removeStopWords: true })));
+		if (queryTerms.length === 0 || this.sectionCount === 0) {
+			return [];
+		}
+
+		const averageLength = this.totalLength / this.sectionCount;
+		const scored: { section: IndexedSection; score: number; matched: string[] }[] = [];
+
+		this.files.forEach((indexedFile, filePath) => {
+			if (include && !include(filePath)) {
+				return;
+			}
+			for (const section of indexedFile.sections) {
+				let score = 0;
+				const matched: string[] = [];
+				for (const term of queryTerms) {
+					const frequency = section.termFrequencies.get(term);
+					if (!frequency) {
+						continue;
+					}
+					matched.push(term);
+					const norm = this.k1 * (1 - this.b + this.b * section.length / averageLength);
+					score += this.idf(term) * (frequency * (this.k1 + 1)) / (frequency + norm);
+				}
+				if (score > 0) {
+					scored.push({ section, score, matched });
+				}
+			}
+		});
+
+		scored.sort((a, b) => b.score - a.score);
+		const topScore = scored[0]?.score || 1;
+
+		return scored.slice(0, topK).map(({ section, score, matched }) => {
+			const { line, snippet } = this.findBestLine(section, matched);
+			// Relative score alone would give every top hit 100%, so weigh in how much of the query matched
+			const coverage = matched.length / queryTerms.length;
+			return {
+				file: this.resolvePath(section.file),
+				line,
+				endLine: line + snippet.split('\n').length - 1,
+				content: snippet,
+				explanation: `Keyword match on ${matched.map(term => `"${term}"`).join(', ')} (BM25 score ${score.toFixed(2)})`,
+				confidence: Math.round((score / topScore) * (0.5 + 0.5 * coverage) * 100) / 100,
+				provider: BM25Index.PROVIDER_NAME,
+				verified: true
+			};
+		});
+	}
+
+	private indexFileSync(file: CodeFile): boolean {
+		const hash = crypto.createHash('sha1').update(file.content).digest('hex');
+		if (this.files.get(file.path)?.hash === hash) {
+			return false;
+		}
+		this.removeFile(file.path);
+
+		// Extracted sections, with oversized classes split so one hit doesn't point at 500 lines
+		const sections = this.codeCollector.chunkFile(file);
+
+		const pathTokens = tokenizeCode(file.path, { removeStopWords: true });
+		const indexedSections = sections.map(section => {
+			const tokens = [...pathTokens, ...tokenizeCode(section.content, { removeStopWords: true })];
+			const termFrequencies = new Map<string, number>();
+			tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+			const indexed: IndexedSection = { ...section, termFrequencies, length: tokens.length };
+			this.addSectionStats(indexed);
+			return indexed;
+		});
+
+		this.files.set(file.path, { hash, sections: indexedSections });
+		this.updatedAt = new Date();
+		return true;
+	}
+
+	private findBestLine(section: IndexedSection, matched: string[]): { line: number; snippet: string } {
+		const lines = section.content.split('\n');
+		let bestIndex = 0;
+		let bestHits = 0;
+		lines.forEach((text, index) => {
+			const tokens = new Set(tokenizeCode(text));
+			const hits = matched.filter(term => tokens.has(term)).length;
+			if (hits > bestHits) {
+				bestHits = hits;
+				bestIndex = index;
+			}
+		});
+		return {
+			line: section.startLine + bestIndex,
+			snippet: lines.slice(bestIndex, bestIndex + 3).join('\n')
+		};
+	}
+
+	private idf(term: string): number {
+		const frequency = this.documentFrequencies.get(term) || 0;
+		return Math.log(1 + (this.sectionCount - frequency + 0.5) / (frequency + 0.5));
+	}
+
+	private addSectionStats(section: IndexedSection): void {
+		this.sectionCount++;
+		this.totalLength += section.length;
+		section.termFrequencies.forEach((_, term) => {
+			this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+		});
+	}
+
+	private removeSectionStats(section: IndexedSection): void {
+		this.sectionCount--;
+		this.totalLength -= section.length;
+		section.termFrequencies.forEach((_, term) => {
+			const remaining = (this.documentFrequencies.get(term) || 0) - 1;
+			if (remaining > 0) {
+				this.documentFrequencies.set(term, remaining);
+			} else {
+				this.documentFrequencies.delete(term);
+			}
+		});
+	}
+}
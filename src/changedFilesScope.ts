@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export type ChangeSource = 'head' | 'branch' | 'staged';
+
+interface ChangeSelection {
+    source: ChangeSource;
+    // Branch to take the merge base with, only for 'branch'
+    ref?: string;
+}
+
+/**
+ * Limits dead code analysis and project reports to files changed in git:
+ * uncommitted changes against HEAD, everything since the merge base with a
+ * branch, or the staged set. Remembered per workspace; unset means all files.
+ */
+export class ChangedFilesScope implements vscode.Disposable {
+    private static readonly STORAGE_KEY = 'whatTheCode.changedFilesScope';
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private state: vscode.Memento) {}
+
+    isAllFiles(): boolean {
+        return !this.getSelection();
+    }
+
+    getLabel(): string {
+        const selection = this.getSelection();
+        switch (selection?.source) {
+            case 'head':
+                return 'Changes vs HEAD';
+            case 'branch':
+                return `Changes vs ${selection.ref}`;
+            case 'staged':
+                return 'Staged changes';
+            default:
+                return 'All files';
+        }
+    }
+
+    async select(folders: readonly vscode.WorkspaceFolder[]): Promise<boolean> {
+        const current = this.getSelection();
+        const items = [
+            { label: '$(files) All files', description: current ? undefined : 'current', source: undefined as ChangeSource | undefined },
+            { label: '$(git-commit) Changes vs HEAD', description: current?.source === 'head' ? 'current' : 'Uncommitted and untracked files', source: 'head' as const },
+            { label: '$(git-merge) Changes vs a branch...', description: current?.source === 'branch' ? `current: ${current.ref}` : 'Everything since the merge base, like a PR', source: 'branch' as const },
+            { label: '$(diff-added) Staged changes', description: current?.source === 'staged' ? 'current' : 'What the next commit contains', source: 'staged' as const }
+        ];
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Analyze which files for dead code and project reports?'
+        });
+        if (!picked) {
+            return false;
+        }
+
+        let selection: ChangeSelection | undefined = picked.source ? { source: picked.source } : undefined;
+        if (picked.source === 'branch') {
+            const ref = await this.pickBranch(folders);
+            if (!ref) {
+                return false;
+            }
+            selection = { source: 'branch', ref };
+        }
+
+        await this.state.update(ChangedFilesScope.STORAGE_KEY, selection);
+        this._onDidChange.fire();
+        return true;
+    }
+
+    /** Absolute paths of changed files that still exist, or undefined when every file is in scope. */
+    async getChangedFiles(folders: readonly vscode.WorkspaceFolder[]): Promise<Set<string> | undefined> {
+        const selection = this.getSelection();
+        if (!selection) {
+            return undefined;
+        }
+
+        // A folder that isn't a repository or lacks the branch is skipped, the others still count
+        const changed = new Set<string>();
+        const skipped: string[] = [];
+        for (const folder of folders) {
+            try {
+                (await this.getFolderChanges(folder.uri.fsPath, selection)).forEach(file => changed.add(file));
+            } catch (error) {
+                skipped.push(`${folder.name} (${error instanceof Error ? error.message : error})`);
+            }
+        }
+        if (skipped.length > 0 && skipped.length === folders.length) {
+            throw new Error(skipped.join('; '));
+        }
+        if (skipped.length > 0) {
+            vscode.window.showWarningMessage(`${this.getLabel()}: skipped ${skipped.join('; ')}`);
+        }
+        return changed;
+    }
+
+    private async getFolderChanges(cwd: string, selection: ChangeSelection): Promise<string[]> {
+        // --relative keeps files outside the folder out and makes paths folder-relative
+        const diffArgs = ['diff', '--name-only', '-z', '--relative', '--diff-filter=d'];
+        let paths: string[];
+        if (selection.source === 'staged') {
+            paths = await this.git(cwd, [...diffArgs, '--cached']);
+        } else {
+            const base = selection.source === 'branch'
+                ? (await this.git(cwd, ['merge-base', 'HEAD', selection.ref || 'HEAD']))[0]
+                : 'HEAD';
+            paths = [
+                ...await this.git(cwd, [...diffArgs, base]),
+                ...await this.git(cwd, ['ls-files', '--others', '--exclude-standard', '-z'])
+            ];
+        }
+        return paths.map(relativePath => path.resolve(cwd, relativePath));
+    }
+
+    private async pickBranch(folders: readonly vscode.WorkspaceFolder[]): Promise<string | undefined> {
+        // Branches of every folder that is a repository, folders without one are skipped when listing changes
+        const found = new Set<string>();
+        const errors: string[] = [];
+        for (const folder of folders) {
+            try {
+                (await this.git(folder.uri.fsPath, ['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes']))
+                    .filter(branch => !branch.endsWith('/HEAD'))
+                    .forEach(branch => found.add(branch));
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+        if (found.size === 0) {
+            vscode.window.showErrorMessage(`Could not list git branches: ${errors.join('; ') || 'no branches found'}`);
+            return undefined;
+        }
+        const branches = [...found];
+
+        // The usual PR targets go first
+        const preferred = ['main', 'master', 'origin/main', 'origin/master', 'develop', 'origin/develop'];
+        branches.sort((a, b) => {
+            const rankA = preferred.includes(a) ? preferred.indexOf(a) : preferred.length;
+            const rankB = preferred.includes(b) ? preferred.indexOf(b) : preferred.length;
+            return rankA - rankB || a.localeCompare(b);
+        });
+        const picked = await vscode.window.showQuickPick(branches.map(branch => ({ label: `$(git-branch) ${branch}`, branch })), {
+            placeHolder: 'Compare with which branch? Changes since its merge base are analyzed'
+        });
+        return picked?.branch;
+    }
+
+    private async git(cwd: string, args: string[]): Promise<string[]> {
+        try {
+            const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+            return stdout.split(args.includes('-z') ? '\0' : '\n').map(line => line.replace(/\r$/, '')).filter(line => line.length > 0);
+        } catch (error: any) {
+            throw new Error(`git ${args[0]} failed in ${cwd}: ${(error.stderr || error.message || String(error)).trim()}`);
+        }
+    }
+
+    private getSelection(): ChangeSelection | undefined {
+        return this.state.get<ChangeSelection>(ChangedFilesScope.STORAGE_KEY);
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { ChatTurn, SearchResult } from './types';
+
+export class ChatHistory {
+	private static readonly STORAGE_KEY = 'whatTheCode.chatHistory';
+	private static readonly MAX_TURNS = 40;
+	// Packed code context is large, so only the most recent answers keep theirs
+	private static readonly MAX_TURNS_WITH_CONTEXT = 2;
+
+	private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+	readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+	constructor(private state: vscode.Memento) {}
+
+	getTurns(): ChatTurn[] {
+		return this.state.get<ChatTurn[]>(ChatHistory.STORAGE_KEY, []);
+	}
+
+	getLastAnswer(): ChatTurn | undefined {
+		return [...this.getTurns()].reverse().find(turn => turn.role === 'assistant');
+	}
+
+	async append(...turns: ChatTurn[]): Promise<void> {
+		let all = [...this.getTurns(), ...turns].slice(-ChatHistory.MAX_TURNS);
+		let withContext = 0;
+		all = all
+			.reverse()
+			.map(turn => {
+				if (turn.context === undefined) {
+					return turn;
+				}
+				withContext++;
+				return withContext > ChatHistory.MAX_TURNS_WITH_CONTEXT ? { ...turn, context: undefined } : turn;
+			})
+			.reverse();
+		await this.state.update(ChatHistory.STORAGE_KEY, all);
+		this._onDidChange.fire();
+	}
+
+	async recordSearch(query: string, results: SearchResult[], context: string | undefined): Promise<void> {
+		const provider = results[0]?.provider;
+		await this.append(
+			{ role: 'user', text: query, timestamp: Date.now() },
+			{
+				role: 'assistant',
+				text: `Found ${results.length} relevant code section(s).`,
+				results,
+				context,
+				provider,
+				timestamp: Date.now()
+			}
+		);
+	}
+
+	async clear(): Promise<void> {
+		await this.state.update(ChatHistory.STORAGE_KEY, []);
+		this._onDidChange.fire();
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+	}
+}
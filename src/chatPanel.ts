@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { ChatHistory } from './chatHistory';
+import { ResultsDisplay } from './resultsDisplay';
+import { ChatTurn, SearchResult } from './types';
+
+export type ChatHandler = (
+	question: string,
+	history: ChatTurn[],
+	progress: vscode.Progress<{ message?: string; increment?: number }>,
+	token: vscode.CancellationToken
+) => Promise<ChatTurn>;
+
+export class ChatPanel implements vscode.Disposable {
+	private panel: vscode.WebviewPanel | undefined;
+	private pending = false;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private history: ChatHistory, private ask: ChatHandler) {
+		this.disposables.push(history.onDidChange(() => this.render()));
+	}
+
+	show(): void {
+		if (this.panel) {
+			this.panel.reveal(vscode.ViewColumn.Beside);
+			return;
+		}
+
+		this.panel = vscode.window.createWebviewPanel(
+			'whatTheCodeChat',
+			'Ask Your Code',
+			vscode.ViewColumn.Beside,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+		this.panel.onDidDispose(() => {
+			this.panel = undefined;
+		});
+		this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message));
+		this.panel.webview.html = this.generateWebviewContent(this.panel.webview);
+		this.render();
+	}
+
+	private async handleMessage(message: any): Promise<void> {
+		switch (message.command) {
+			case 'ask':
+				await this.askQuestion(String(message.text || '').trim());
+				break;
+			case 'clear':
+				await this.history.clear();
+				break;
+			default:
+				ResultsDisplay.handleMessage(message, this.getAllResults());
+		}
+	}
+
+	private async askQuestion(question: string): Promise<void> {
+		if (!question || this.pending) {
+			return;
+		}
+
+		const previous = this.history.getTurns();
+		this.pending = true;
+		await this.history.append({ role: 'user', text: question, timestamp: Date.now() });
+
+		try {
+			const answer = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Thinking about your follow-up...',
+				cancellable: true
+			}, (progress, token) => this.ask(question, previous, progress, token));
+			this.pending = false;
+			await this.history.append(answer);
+		} catch (error: any) {
+			this.pending = false;
+			const cancelled = error instanceof vscode.CancellationError;
+			await this.history.append({
+				role: 'assistant',
+				text: cancelled ? 'Cancelled.' : `⚠️ ${error.message}`,
+				timestamp: Date.now()
+			});
+		}
+	}
+
+	private getAllResults(): SearchResult[] {
+		return this.history.getTurns().flatMap(turn => turn.results || []);
+	}
+
+	private render(): void {
+		if (!this.panel) {
+			return;
+		}
+		let resultIndex = 0;
+		const html = this.history.getTurns().map(turn => {
+			if (turn.role === 'user') {
+				return `<div class="chat-turn user"><div class="bubble">${this.escapeHtml(turn.text)}</div></div>`;
+			}
+			const results = (turn.results || [])
+				.map(result => ResultsDisplay.generateResultHtml(result, resultIndex++))
+				.join('');
+			const provider = turn.provider ? `<div class="provider">Answered by ${this.escapeHtml(turn.provider)}</div>` : '';
+			return `<div class="chat-turn assistant"><div class="bubble">${this.escapeHtml(turn.text)}${provider}</div>${results}</div>`;
+		}).join('');
+
+		this.panel.webview.postMessage({ command: 'render', html, pending: this.pending });
+	}
+
+	private generateWebviewContent(webview: vscode.Webview): string {
+		const nonce = ResultsDisplay.getNonce();
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="${ResultsDisplay.getContentSecurityPolicy(webview, nonce)}">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>Ask Your Code</title>
+	<style>
+${ResultsDisplay.getStyles()}
+
+		body {
+			display: flex;
+			flex-direction: column;
+			height: 100vh;
+			margin: 0;
+		}
+
+		.conversation {
+			flex: 1;
+			overflow-y: auto;
+			padding-bottom: 16px;
+		}
+
+		.empty-state {
+			text-align: center;
+			opacity: 0.7;
+			padding: 40px 16px;
+		}
+
+		.chat-turn {
+			margin: 12px 0;
+		}
+
+		.chat-turn.user {
+			text-align: right;
+		}
+
+		.bubble {
+			display: inline-block;
+			max-width: 85%;
+			padding: 10px 14px;
+			border-radius: 8px;
+			text-align: left;
+			white-space: pre-wrap;
+			background: var(--secondary-bg);
+			border: 1px solid var(--border);
+		}
+
+		.chat-turn.user .bubble {
+			background: var(--vscode-button-background);
+			color: var(--vscode-button-foreground);
+			border: none;
+		}
+
+		.provider {
+			margin-top: 6px;
+			font-size: 11px;
+			opacity: 0.7;
+		}
+
+		.composer {
+			display: flex;
+			gap: 8px;
+			padding-top: 12px;
+			border-top: 1px solid var(--border);
+		}
+
+		.composer textarea {
+			flex: 1;
+			resize: none;
+			padding: 8px;
+			font-family: inherit;
+			color: var(--vscode-input-foreground);
+			background: var(--vscode-input-background);
+			border: 1px solid var(--vscode-input-border, var(--border));
+			border-radius: 4px;
+		}
+	</style>
+</head>
+<body>
+	<div class="conversation"></div>
+
+	<div class="composer">
+		<textarea id="question" rows="2" placeholder='Ask a follow-up, e.g. "and where is that called from?"'></textarea>
+		<button class="action-btn primary" id="send">Send</button>
+		<button class="action-btn" id="clear" title="Start a new conversation">🗑️</button>
+	</div>
+
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		const conversation = document.querySelector('.conversation');
+		const question = document.getElementById('question');
+		const send = document.getElementById('send');
+
+		function ask() {
+			const text = question.value.trim();
+			if (!text || send.disabled) {
+				return;
+			}
+			vscode.postMessage({ command: 'ask', text });
+			question.value = '';
+		}
+
+		send.addEventListener('click', ask);
+		document.getElementById('clear').addEventListener('click', () => vscode.postMessage({ command: 'clear' }));
+		question.addEventListener('keydown', e => {
+			if (e.key === 'Enter' && !e.shiftKey) {
+				e.preventDefault();
+				ask();
+			}
+		});
+
+		window.addEventListener('message', event => {
+			const message = event.data;
+			if (message.command === 'render') {
+				conversation.innerHTML = message.html || '<div class="empty-state">💬 Ask a question about your code. Searches you run are added here so you can follow up on them.</div>';
+				send.disabled = message.pending;
+				conversation.scrollTop = conversation.scrollHeight;
+			}
+		});
+
+		${ResultsDisplay.getResultScripts()}
+	</script>
+</body>
+</html>`;
+	}
+
+	private escapeHtml(text: string): string {
+		return text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;')
+			.replace(/'/g, '&#39;');
+	}
+
+	dispose(): void {
+		this.panel?.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+}
@@ -1,13 +1,16 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { CodeFile, SearchOptions } from './types';
+import { CodeFile, CodeSection, SearchOptions } from './types';
+import { FileDiscovery } from './fileDiscovery';
 
 export class CodeCollector {
 	private config: vscode.WorkspaceConfiguration;
+	private discovery: FileDiscovery;
 
 	constructor() {
 		this.config = vscode.workspace.getConfiguration('whatTheCode');
+		this.discovery = new FileDiscovery();
 	}
 
 	async collectCodeFiles(options?: SearchOptions): Promise<CodeFile[]> {
@@ -20,23 +23,14 @@ export class CodeCollector {
 			this.config.get<string[]>('includedExtensions', []);
 		const maxFileSize = options?.maxFileSize || 
 			this.config.get<number>('maxFileSize', 10000);
-		const excludePatterns = options?.excludePatterns || [
-			'**/node_modules/**',
-			'**/dist/**',
-			'**/build/**',
-			'**/*.min.js',
-			'**/*.bundle.js',
-			'**/coverage/**',
-			'**/.git/**'
-		];
 
 		const codeFiles: CodeFile[] = [];
 
 		for (const folder of workspaceFolders) {
-			const files = await vscode.workspace.findFiles(
-				new vscode.RelativePattern(folder, `**/*{${includedExtensions.join(',')}}`),
-				`{${excludePatterns.join(',')}}`
-			);
+			const files = await this.discovery.findFiles(folder, {
+				extensions: includedExtensions,
+				excludePatterns: options?.excludePatterns
+			});
 
 			for (const file of files) {
 				try {
@@ -58,6 +52,33 @@ export class CodeCollector {
 		return codeFiles;
 	}
 
+	readCodeFile(uri: vscode.Uri, options?: SearchOptions): CodeFile | undefined {
+		const includedExtensions = options?.includedExtensions || 
+			this.config.get<string[]>('includedExtensions', []);
+		const maxFileSize = options?.maxFileSize || 
+			this.config.get<number>('maxFileSize', 10000);
+
+		if (!includedExtensions.includes(path.extname(uri.fsPath)) ||
+			this.discovery.isIgnored(uri, options?.excludePatterns)) {
+			return undefined;
+		}
+
+		try {
+			const content = fs.readFileSync(uri.fsPath, 'utf8');
+			if (content.length > maxFileSize) {
+				return undefined;
+			}
+			return {
+				path: vscode.workspace.asRelativePath(uri),
+				content: content,
+				language: this.getLanguageFromExtension(path.extname(uri.fsPath)),
+				size: content.length
+			};
+		} catch (error) {
+			return undefined;
+		}
+	}
+
 	private getLanguageFromExtension(ext: string): string {
 		const languageMap: { [key: string]: string } = {
 			'.js': 'javascript',
@@ -85,7 +106,7 @@ export class CodeCollector {
 		return languageMap[ext] || 'plaintext';
 	}
 
-	prioritizeFiles(files: CodeFile[], query: string): CodeFile[] {
+	prioritizeFiles(files: CodeFile[], query: string, limit: number = 5): CodeFile[] {
 		const queryTerms = query.toLowerCase().split(' ')
 			.filter(term => term.length > 2);
 
@@ -95,7 +116,7 @@ export class CodeCollector {
 				relevanceScore: this.calculateRelevanceScore(file, queryTerms)
 			}))
 			.sort((a, b) => b.relevanceScore - a.relevanceScore)
-			.slice(0, 5);
+			.slice(0, limit);
 	}
 
 	private calculateRelevanceScore(file: CodeFile, queryTerms: string[]): number {
@@ -128,8 +149,12 @@ export class CodeCollector {
 
 	
 	extractCodeSections(file: CodeFile): string[] {
+		return this.extractSections(file).map(section => section.content);
+	}
+
+	extractSections(file: CodeFile): CodeSection[] {
 		const lines = file.content.split('\n');
-		const sections: string[] = [];
+		const sections: CodeSection[] = [];
 		const sectionPatterns = [
 			/^\s*(function|const|let|var)\s+(\w+)/,
 			/^\s*(class|interface|type)\s+(\w+)/,
@@ -139,6 +164,7 @@ export class CodeCollector {
 		];
 
 		let currentSection = '';
+		let sectionStart = 0;
 		let bracketCount = 0;
 		let inSection = false;
 
@@ -147,11 +173,12 @@ export class CodeCollector {
 			const isNewSection = sectionPatterns.some(pattern => pattern.test(line));
 			if (isNewSection && !inSection) {
 				currentSection = line;
+				sectionStart = i;
 				bracketCount = (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
 				inSection = bracketCount > 0;
 				
 				if (bracketCount === 0) {
-					sections.push(currentSection);
+					sections.push(this.createSection(file, currentSection, sectionStart, i));
 					currentSection = '';
 				}
 			} else if (inSection) {
@@ -159,13 +186,55 @@ export class CodeCollector {
 				bracketCount += (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
 				
 				if (bracketCount <= 0) {
-					sections.push(currentSection);
+					sections.push(this.createSection(file, currentSection, sectionStart, i));
 					currentSection = '';
 					inSection = false;
 				}
 			}
 		}
 
-		return sections.filter(section => section.trim().length > 0);
+		return sections.filter(section => section.content.trim().length > 0);
+	}
+
+	chunkFile(file: CodeFile, windowSize: number = 40): CodeSection[] {
+		const sections = this.extractSections(file);
+		if (sections.length > 0) {
+			return sections.flatMap(section => this.splitSection(file, section, windowSize * 2));
+		}
+
+		// Languages the section patterns don't understand are chunked into fixed line windows
+		const lines = file.content.split('\n');
+		const chunks: CodeSection[] = [];
+		for (let start = 0; start < lines.length; start += windowSize) {
+			const end = Math.min(lines.length, start + windowSize) - 1;
+			const content = lines.slice(start, end + 1).join('\n');
+			if (content.trim().length > 0) {
+				chunks.push(this.createSection(file, content, start, end));
+			}
+		}
+		return chunks;
+	}
+
+	private splitSection(file: CodeFile, section: CodeSection, maxLines: number): CodeSection[] {
+		const lines = section.content.split('\n');
+		if (lines.length <= maxLines) {
+			return [section];
+		}
+		const parts: CodeSection[] = [];
+		for (let offset = 0; offset < lines.length; offset += maxLines) {
+			const partLines = lines.slice(offset, offset + maxLines);
+			const startIndex = section.startLine - 1 + offset;
+			parts.push(this.createSection(file, partLines.join('\n'), startIndex, startIndex + partLines.length - 1));
+		}
+		return parts;
+	}
+
+	private createSection(file: CodeFile, content: string, startIndex: number, endIndex: number): CodeSection {
+		return {
+			file: file.path,
+			startLine: startIndex + 1,
+			endLine: endIndex + 1,
+			content
+		};
 	}
 }
@@ -1,3 +1,7 @@
+import { AstAnalyzer } from './astAnalyzer';
+import { CssUsageIndex } from './cssUsageIndex';
+import { filterSuppressed, getLineName } from './suppressions';
+
 export interface CodeQualityMetrics {
     readonly typesCoverage: number;
     readonly functionComplexity: number;
@@ -31,8 +35,32 @@ export class CodeQualityAnalyzer {
     private readonly complexityThreshold = 10;
     private readonly functionLengthThreshold = 50;
     private readonly duplicateThreshold = 5;
+    private astAnalyzer = new AstAnalyzer();
 
     analyzeCodeQuality(content: string, filePath: string): CodeQualityMetrics {
+        if (AstAnalyzer.supports(filePath)) {
+            try {
+                return {
+                    ...this.astAnalyzer.analyzeCodeQuality(content, filePath),
+                    duplicateCodeBlocks: this.findDuplicateBlocks(this.astAnalyzer.stripComments(content, filePath))
+                };
+            } catch (error) {
+                console.warn(`AST analysis failed for ${filePath}, falling back to pattern matching:`, error);
+            }
+        }
+
+        // Stylesheets have no functions or types, only repetition is worth measuring
+        if (CssUsageIndex.isStylesheet(filePath)) {
+            return {
+                typesCoverage: 100,
+                functionComplexity: 0,
+                duplicateCodeBlocks: this.findDuplicateBlocks(content),
+                unusedParameters: 0,
+                magicNumbers: 0,
+                longFunctions: 0
+            };
+        }
+
         return {
             typesCoverage: this.calculateTypesCoverage(content),
             functionComplexity: this.calculateAverageComplexity(content),
@@ -44,6 +72,25 @@ export class CodeQualityAnalyzer {
     }
 
     findTypeSafetyIssues(content: string, filePath: string): TypeSafetyIssue[] {
+        return filterSuppressed(this.collectTypeSafetyIssues(content, filePath), content, filePath, issue => getLineName(content, issue.line));
+    }
+
+    generateRefactoringRecommendations(content: string, filePath: string): RefactoringRecommendation[] {
+        return filterSuppressed(this.collectRefactoringRecommendations(content, filePath), content, filePath, recommendation => getLineName(content, recommendation.line));
+    }
+
+    private collectTypeSafetyIssues(content: string, filePath: string): TypeSafetyIssue[] {
+        if (AstAnalyzer.supports(filePath)) {
+            try {
+                return this.astAnalyzer.findTypeSafetyIssues(content, filePath);
+            } catch (error) {
+                console.warn(`AST analysis failed for ${filePath}, falling back to pattern matching:`, error);
+            }
+        }
+        if (CssUsageIndex.isStylesheet(filePath)) {
+            return [];
+        }
+
         const issues: TypeSafetyIssue[] = [];
         const lines = content.split('\n');
 
@@ -94,7 +141,21 @@ export class CodeQualityAnalyzer {
         return issues;
     }
 
-    generateRefactoringRecommendations(content: string, filePath: string): RefactoringRecommendation[] {
+    private collectRefactoringRecommendations(content: string, filePath: string): RefactoringRecommendation[] {
+        if (AstAnalyzer.supports(filePath)) {
+            try {
+                return [
+                    ...this.astAnalyzer.generateRefactoringRecommendations(content, filePath),
+                    ...this.findDuplicateCodeBlocks(this.astAnalyzer.stripComments(content, filePath), filePath)
+                ];
+            } catch (error) {
+                console.warn(`AST analysis failed for ${filePath}, falling back to pattern matching:`, error);
+            }
+        }
+        if (CssUsageIndex.isStylesheet(filePath)) {
+            return this.findDuplicateCodeBlocks(content, filePath);
+        }
+
         const recommendations: RefactoringRecommendation[] = [];
         const lines = content.split('\n');
 
@@ -172,6 +233,10 @@ export class CodeQualityAnalyzer {
         let duplicateCount = 0;
 
         for (let i = 0; i < lines.length - this.duplicateThreshold; i++) {
+            // Windows padded with blank lines would trim down to the same text as their neighbours
+            if (!lines[i].trim() || !lines[i + this.duplicateThreshold - 1].trim()) {
+                continue;
+            }
             const block = lines.slice(i, i + this.duplicateThreshold).join('\n').trim();
             if (block && !block.startsWith('//') && !block.startsWith('/*')) {
                 blocks.set(block, (blocks.get(block) || 0) + 1);
@@ -193,6 +258,10 @@ export class CodeQualityAnalyzer {
         const seenBlocks = new Map<string, number>();
 
         for (let i = 0; i < lines.length - this.duplicateThreshold; i++) {
+            // Windows padded with blank lines would trim down to the same text as their neighbours
+            if (!lines[i].trim() || !lines[i + this.duplicateThreshold - 1].trim()) {
+                continue;
+            }
             const block = lines.slice(i, i + this.duplicateThreshold).join('\n').trim();
             if (block && !this.isCommentBlock(block)) {
                 if (seenBlocks.has(block)) {
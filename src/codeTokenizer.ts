@@ -0,0 +1,40 @@
+const STOP_WORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'code', 'do', 'does', 'for', 'from', 'how',
+	'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'show', 'that', 'the', 'this', 'to', 'we',
+	'what', 'where', 'which', 'who', 'why', 'with'
+]);
+
+export interface TokenizeOptions {
+	removeStopWords?: boolean;
+	keepCompoundIdentifiers?: boolean;
+}
+
+export function splitIdentifier(identifier: string): string[] {
+	return identifier
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+		.split(/[_\-\s$]+/)
+		.map(part => part.toLowerCase())
+		.filter(part => part.length > 0);
+}
+
+export function tokenizeCode(text: string, options: TokenizeOptions = {}): string[] {
+	const { removeStopWords = false, keepCompoundIdentifiers = true } = options;
+	const tokens: string[] = [];
+	const identifiers = text.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) || [];
+
+	for (const identifier of identifiers) {
+		const parts = splitIdentifier(identifier);
+		if (keepCompoundIdentifiers && parts.length > 1) {
+			tokens.push(identifier.toLowerCase());
+		}
+		for (const part of parts) {
+			if (part.length < 2 || (removeStopWords && STOP_WORDS.has(part))) {
+				continue;
+			}
+			tokens.push(part);
+		}
+	}
+
+	return tokens;
+}
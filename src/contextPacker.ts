@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { CodeFile, CodeSection } from './types';
+import { CodeCollector } from './codeCollector';
+import { tokenizeCode } from './codeTokenizer';
+
+export interface OmittedContext {
+	file: string;
+	startLine?: number;
+	endLine?: number;
+}
+
+export interface PackedContext {
+	text: string;
+	tokens: number;
+	budget: number;
+	included: CodeSection[];
+	omitted: OmittedContext[];
+}
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+const MAX_OMITTED_IN_PROMPT = 20;
+
+export class ContextPacker {
+	private codeCollector: CodeCollector;
+	private used = 0;
+	private included: CodeSection[] = [];
+	private omitted: OmittedContext[] = [];
+
+	constructor(private budget: number) {
+		this.codeCollector = new CodeCollector();
+	}
+
+	static resolveTokenBudget(models: (string | undefined)[], config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('whatTheCode')): number {
+		const defaultBudget = config.get<number>('contextTokenBudget', DEFAULT_TOKEN_BUDGET);
+		const budgets = config.get<{ [model: string]: number }>('contextTokenBudgets', {});
+		// The prompt has to fit every model in the fallback chain, not just the first
+		const resolved = models.map(model => (model && budgets[model]) || defaultBudget);
+		return resolved.length > 0 ? Math.min(...resolved) : defaultBudget;
+	}
+
+	static estimateTokens(text: string): number {
+		return Math.ceil(text.length / 4);
+	}
+
+	packSections(sections: CodeSection[]): PackedContext {
+		this.reset();
+		for (const section of sections) {
+			if (!this.tryInclude(section)) {
+				this.omitted.push({ file: section.file, startLine: section.startLine, endLine: section.endLine });
+			}
+		}
+		return this.finish();
+	}
+
+	packFiles(files: CodeFile[], query: string): PackedContext {
+		this.reset();
+		const queryTerms = new Set(tokenizeCode(query, { removeStopWords: true }));
+		const candidates: { section: CodeSection; fileRank: number; position: number; matched: number; hits: number }[] = [];
+
+		files.forEach((file, fileRank) => {
+			const whole: CodeSection = { file: file.path, startLine: 1, endLine: file.content.split('\n').length, content: file.content };
+			// Small files go in whole; bigger ones compete section by section so one large file
+			// can't crowd out the relevant function in the next one
+			const sections = this.estimateCost(whole) <= this.budget / 4 ? [whole] : this.codeCollector.chunkFile(file);
+			sections.forEach((section, position) => {
+				const tokens = tokenizeCode(section.content).filter(token => queryTerms.has(token));
+				candidates.push({ section, fileRank, position, matched: new Set(tokens).size, hits: tokens.length });
+			});
+		});
+
+		candidates.sort((a, b) => b.matched - a.matched || b.hits - a.hits || a.fileRank - b.fileRank || a.position - b.position);
+		const left = new Map<string, CodeSection[]>();
+		const partial = new Set<string>();
+		for (const { section } of candidates) {
+			if (this.tryInclude(section)) {
+				partial.add(section.file);
+			} else {
+				left.set(section.file, [...(left.get(section.file) || []), section]);
+			}
+		}
+
+		left.forEach((sections, file) => {
+			if (!partial.has(file)) {
+				this.omitted.push({ file });
+				return;
+			}
+			sections
+				.sort((a, b) => a.startLine - b.startLine)
+				.forEach(section => this.omitted.push({ file, startLine: section.startLine, endLine: section.endLine }));
+		});
+		return this.finish();
+	}
+
+	static describeOmitted(omitted: OmittedContext): string {
+		return omitted.startLine !== undefined
+			? `${omitted.file} (lines ${omitted.startLine}-${omitted.endLine})`
+			: omitted.file;
+	}
+
+	private estimateCost(section: CodeSection): number {
+		return ContextPacker.estimateTokens(this.formatSection(section));
+	}
+
+	private tryInclude(section: CodeSection): boolean {
+		const cost = this.estimateCost(section);
+		if (this.used + cost > this.budget) {
+			return false;
+		}
+		this.used += cost;
+		this.included.push(section);
+		return true;
+	}
+
+	private formatSection(section: CodeSection): string {
+		const width = String(section.endLine).length;
+		const numbered = section.content
+			.split('\n')
+			.map((line, index) => `${String(section.startLine + index).padStart(width)} | ${line}`)
+			.join('\n');
+		return `File: ${section.file} (lines ${section.startLine}-${section.endLine})
+${numbered}
+---
+`;
+	}
+
+	private finish(): PackedContext {
+		// Sections are picked by relevance but read best in file order
+		const ordered = [...this.included].sort((a, b) => a.file.localeCompare(b.file) || a.startLine - b.startLine);
+		let text = ordered.map(section => this.formatSection(section)).join('');
+
+		if (this.omitted.length > 0) {
+			const listed = this.omitted.slice(0, MAX_OMITTED_IN_PROMPT).map(omitted => `- ${ContextPacker.describeOmitted(omitted)}`);
+			if (this.omitted.length > MAX_OMITTED_IN_PROMPT) {
+				listed.push(`- ... and ${this.omitted.length - MAX_OMITTED_IN_PROMPT} more`);
+			}
+			text += `Not shown (context budget exceeded):
+${listed.join('\n')}
+`;
+		}
+
+		return {
+			text,
+			tokens: ContextPacker.estimateTokens(text),
+			budget: this.budget,
+			included: ordered,
+			omitted: this.omitted
+		};
+	}
+
+	private reset(): void {
+		this.used = 0;
+		this.included = [];
+		this.omitted = [];
+	}
+}
@@ -0,0 +1,317 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+export const DEFAULT_COVERAGE_PATHS = ['coverage/coverage-final.json', 'coverage/lcov.info', 'coverage/tmp'];
+
+export interface FileCoverage {
+    filePath: string;
+    // Hit counts by function name and by 1-based line
+    functions: Map<string, number>;
+    lines: Map<number, number>;
+}
+
+interface V8Range {
+    startOffset: number;
+    endOffset: number;
+    count: number;
+}
+
+interface OriginalPosition {
+    filePath: string;
+    line: number;
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Reads Istanbul/nyc JSON (coverage-final.json), lcov (lcov.info) and raw V8
+ * dumps (a NODE_V8_COVERAGE or c8 coverage/tmp directory). Reports from several
+ * sources are merged; the highest hit count wins. V8 dumps cover the code that
+ * ran, so compiled output is mapped back to its sources through source maps.
+ */
+export class CoverageReader {
+    private files = new Map<string, FileCoverage>();
+    private sources: string[] = [];
+
+    getFiles(): Map<string, FileCoverage> {
+        return this.files;
+    }
+
+    getSources(): string[] {
+        return this.sources;
+    }
+
+    /** Loads a coverage file or V8 dump directory; relative paths inside it resolve against rootPath. */
+    async load(source: string, rootPath: string): Promise<boolean> {
+        try {
+            const stat = await fs.promises.stat(source);
+            if (stat.isDirectory()) {
+                const dumps = (await fs.promises.readdir(source)).filter(name => name.endsWith('.json'));
+                for (const dump of dumps) {
+                    await this.loadJson(path.join(source, dump), rootPath);
+                }
+                if (dumps.length === 0) {
+                    return false;
+                }
+            } else if (source.endsWith('.json')) {
+                await this.loadJson(source, rootPath);
+            } else {
+                this.parseLcov(await fs.promises.readFile(source, 'utf8'), rootPath);
+            }
+            this.sources.push(source);
+            return true;
+        } catch (error) {
+            if (fs.existsSync(source)) {
+                console.warn(`Could not read coverage from ${source}:`, error);
+            }
+            return false;
+        }
+    }
+
+    private async loadJson(filePath: string, rootPath: string): Promise<void> {
+        const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+        if (Array.isArray(data?.result)) {
+            await this.parseV8(data.result, data['source-map-cache'] || {});
+        } else if (data && typeof data === 'object') {
+            this.parseIstanbul(data, rootPath);
+        }
+    }
+
+    private parseIstanbul(data: any, rootPath: string): void {
+        for (const [key, value] of Object.entries<any>(data)) {
+            // Older nyc versions wrap each entry in { data: ... }
+            const entry = value?.data || value;
+            if (!entry || typeof entry !== 'object' || !entry.statementMap) {
+                continue;
+            }
+            const coverage = this.getFile(path.resolve(rootPath, entry.path || key));
+            for (const [id, fn] of Object.entries<any>(entry.fnMap || {})) {
+                if (fn?.name && !fn.name.startsWith('(anonymous')) {
+                    this.record(coverage.functions, fn.name, entry.f?.[id] || 0);
+                }
+            }
+            for (const [id, statement] of Object.entries<any>(entry.statementMap)) {
+                const line = statement?.start?.line;
+                if (typeof line === 'number') {
+                    this.record(coverage.lines, line, entry.s?.[id] || 0);
+                }
+            }
+        }
+    }
+
+    private parseLcov(content: string, rootPath: string): void {
+        let coverage: FileCoverage | undefined;
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            const separator = line.indexOf(':');
+            const tag = separator === -1 ? line : line.slice(0, separator);
+            const fields = line.slice(separator + 1).split(',');
+
+            if (tag === 'SF') {
+                coverage = this.getFile(path.resolve(rootPath, line.slice(separator + 1)));
+            } else if (tag === 'end_of_record') {
+                coverage = undefined;
+            } else if (!coverage) {
+                continue;
+            } else if (tag === 'FN') {
+                // FN:<line>,<name>, or FN:<start>,<end>,<name> since lcov 2.0
+                this.record(coverage.functions, fields[fields.length - 1], 0);
+            } else if (tag === 'FNDA') {
+                this.record(coverage.functions, fields.slice(1).join(','), parseInt(fields[0], 10) || 0);
+            } else if (tag === 'DA') {
+                const lineNumber = parseInt(fields[0], 10);
+                if (!isNaN(lineNumber)) {
+                    this.record(coverage.lines, lineNumber, parseInt(fields[1], 10) || 0);
+                }
+            }
+        }
+    }
+
+    /** sourceMapCache is what node --enable-source-maps adds to the dump, keyed by script URL. */
+    private async parseV8(scripts: any[], sourceMapCache: { [url: string]: any }): Promise<void> {
+        for (const script of scripts) {
+            if (typeof script?.url !== 'string' || !script.url.startsWith('file:') || script.url.includes('/node_modules/')) {
+                continue;
+            }
+            let filePath: string;
+            let content: string;
+            try {
+                filePath = fileURLToPath(script.url);
+                content = await fs.promises.readFile(filePath, 'utf8');
+            } catch {
+                continue;
+            }
+
+            const ranges: V8Range[] = [];
+            const functions: { name: string; offset: number; count: number }[] = [];
+            for (const fn of script.functions || []) {
+                const fnRanges: V8Range[] = fn.ranges || [];
+                if (fn.functionName && fnRanges.length > 0) {
+                    functions.push({ name: fn.functionName, offset: fnRanges[0].startOffset, count: fnRanges[0].count });
+                }
+                ranges.push(...fnRanges);
+            }
+            const lineCounts = this.paintLines(content, ranges);
+
+            const cached = sourceMapCache[script.url];
+            const sourceMap = cached?.data
+                ? this.decodeSourceMap(cached.data, path.dirname(typeof cached.url === 'string' && cached.url.startsWith('file:') ? fileURLToPath(cached.url) : filePath))
+                : await this.loadSourceMap(filePath, content);
+            if (!sourceMap) {
+                const coverage = this.getFile(filePath);
+                functions.forEach(fn => this.record(coverage.functions, fn.name, fn.count));
+                lineCounts.forEach((count, line) => this.record(coverage.lines, line, count));
+                continue;
+            }
+
+            // Compiled output: credit the original source lines instead of the generated ones
+            lineCounts.forEach((count, line) => {
+                const original = sourceMap.get(line);
+                if (original) {
+                    this.record(this.getFile(original.filePath).lines, original.line, count);
+                }
+            });
+            const lineOffsets = this.getLineOffsets(content);
+            for (const fn of functions) {
+                const original = sourceMap.get(this.getLineAt(lineOffsets, fn.offset));
+                if (original) {
+                    this.record(this.getFile(original.filePath).functions, fn.name, fn.count);
+                }
+            }
+        }
+    }
+
+    /**
+     * V8 ranges nest: a block's count overrides its function's. Painting from
+     * the widest range to the narrowest gives each line its innermost count.
+     */
+    private paintLines(content: string, ranges: V8Range[]): Map<number, number> {
+        const lineStarts: number[] = [];
+        const linePattern = /[^\n]*\n?/g;
+        let match: RegExpExecArray | null;
+        while ((match = linePattern.exec(content)) && match[0].length > 0) {
+            const indent = match[0].search(/\S/);
+            // Blank lines hold no code, -1 keeps them out of every range
+            lineStarts.push(indent === -1 ? -1 : match.index + indent);
+        }
+
+        const counts = new Map<number, number>();
+        const sorted = [...ranges].sort((a, b) => (b.endOffset - b.startOffset) - (a.endOffset - a.startOffset));
+        for (const range of sorted) {
+            for (let index = 0; index < lineStarts.length; index++) {
+                const offset = lineStarts[index];
+                if (offset >= range.startOffset && offset < range.endOffset) {
+                    counts.set(index + 1, range.count);
+                }
+            }
+        }
+        return counts;
+    }
+
+    /** Follows a sourceMappingURL comment to an inline data: URL or a .map file. */
+    private async loadSourceMap(filePath: string, content: string): Promise<Map<number, OriginalPosition> | undefined> {
+        const url = [...content.matchAll(/\/\/[#@] sourceMappingURL=(\S+)/g)].pop()?.[1];
+        if (!url) {
+            return undefined;
+        }
+        try {
+            if (url.startsWith('data:')) {
+                const [header, payload] = url.split(',', 2);
+                const json = header.endsWith(';base64') ? Buffer.from(payload, 'base64').toString('utf8') : decodeURIComponent(payload);
+                return this.decodeSourceMap(JSON.parse(json), path.dirname(filePath));
+            }
+            const mapPath = url.startsWith('file:') ? fileURLToPath(url) : path.resolve(path.dirname(filePath), decodeURIComponent(url));
+            return this.decodeSourceMap(JSON.parse(await fs.promises.readFile(mapPath, 'utf8')), path.dirname(mapPath));
+        } catch (error) {
+            console.warn(`Could not read the source map of ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    /** Maps each generated 1-based line to the original position of its first mapped segment. */
+    private decodeSourceMap(map: any, mapDirectory: string): Map<number, OriginalPosition> | undefined {
+        if (typeof map?.mappings !== 'string' || !Array.isArray(map.sources)) {
+            return undefined;
+        }
+        const sources: string[] = map.sources.map((source: string) => source.startsWith('file:')
+            ? fileURLToPath(source)
+            : path.resolve(mapDirectory, map.sourceRoot || '', source));
+
+        const positions = new Map<number, OriginalPosition>();
+        // Every field but the generated column is relative to the previous segment, across lines too
+        let sourceIndex = 0;
+        let sourceLine = 0;
+        map.mappings.split(';').forEach((segments: string, index: number) => {
+            for (const segment of segments.split(',')) {
+                const fields = this.decodeVlq(segment);
+                if (fields.length < 4) {
+                    continue;
+                }
+                sourceIndex += fields[1];
+                sourceLine += fields[2];
+                if (!positions.has(index + 1) && sources[sourceIndex]) {
+                    positions.set(index + 1, { filePath: sources[sourceIndex], line: sourceLine + 1 });
+                }
+            }
+        });
+        return positions;
+    }
+
+    private decodeVlq(segment: string): number[] {
+        const values: number[] = [];
+        let value = 0;
+        let shift = 0;
+        for (const char of segment) {
+            const digit = BASE64_DIGITS.indexOf(char);
+            if (digit === -1) {
+                return [];
+            }
+            value += (digit & 31) << shift;
+            if (digit & 32) {
+                shift += 5;
+            } else {
+                values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+                value = 0;
+                shift = 0;
+            }
+        }
+        return values;
+    }
+
+    private getLineOffsets(content: string): number[] {
+        const offsets = [0];
+        for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+            offsets.push(index + 1);
+        }
+        return offsets;
+    }
+
+    /** 1-based line holding offset. */
+    private getLineAt(lineOffsets: number[], offset: number): number {
+        let low = 0;
+        let high = lineOffsets.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineOffsets[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return low + 1;
+    }
+
+    private getFile(filePath: string): FileCoverage {
+        let coverage = this.files.get(filePath);
+        if (!coverage) {
+            coverage = { filePath, functions: new Map(), lines: new Map() };
+            this.files.set(filePath, coverage);
+        }
+        return coverage;
+    }
+
+    private record<K>(hits: Map<K, number>, key: K, count: number): void {
+        hits.set(key, Math.max(hits.get(key) || 0, count));
+    }
+}
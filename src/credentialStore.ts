@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+
+export interface CredentialProvider {
+	id: string;
+	label: string;
+	legacySetting: string;
+}
+
+export class CredentialStore {
+	static readonly PROVIDERS: CredentialProvider[] = [
+		{ id: 'gemini', label: 'Gemini', legacySetting: 'geminiApiKey' },
+		{ id: 'openai', label: 'OpenAI-compatible', legacySetting: 'openaiApiKey' }
+	];
+
+	constructor(private secrets: vscode.SecretStorage) {}
+
+	async getApiKey(providerId: string): Promise<string> {
+		return (await this.secrets.get(this.secretKey(providerId))) || '';
+	}
+
+	async hasApiKey(providerId: string): Promise<boolean> {
+		return (await this.getApiKey(providerId)).length > 0;
+	}
+
+	async setApiKey(providerId: string, apiKey: string): Promise<void> {
+		await this.secrets.store(this.secretKey(providerId), apiKey.trim());
+	}
+
+	async clearApiKey(providerId: string): Promise<void> {
+		await this.secrets.delete(this.secretKey(providerId));
+	}
+
+	async migratePlaintextKeys(): Promise<string[]> {
+		const config = vscode.workspace.getConfiguration('whatTheCode');
+		const migrated: string[] = [];
+
+		for (const provider of CredentialStore.PROVIDERS) {
+			const inspected = config.inspect<string>(provider.legacySetting);
+			const plaintextKey = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+			if (!plaintextKey) {
+				continue;
+			}
+
+			if (!(await this.hasApiKey(provider.id))) {
+				await this.setApiKey(provider.id, plaintextKey);
+				migrated.push(provider.label);
+			}
+
+			// The secret store is now the source of truth, so never leave the plaintext copy behind
+			if (inspected?.globalValue !== undefined) {
+				await config.update(provider.legacySetting, undefined, vscode.ConfigurationTarget.Global);
+			}
+			if (inspected?.workspaceValue !== undefined) {
+				await config.update(provider.legacySetting, undefined, vscode.ConfigurationTarget.Workspace);
+			}
+			if (inspected?.workspaceFolderValue !== undefined) {
+				await config.update(provider.legacySetting, undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+			}
+		}
+
+		return migrated;
+	}
+
+	async pickProvider(placeHolder: string): Promise<CredentialProvider | undefined> {
+		const items = await Promise.all(CredentialStore.PROVIDERS.map(async provider => ({
+			label: provider.label,
+			description: (await this.hasApiKey(provider.id)) ? '$(key) Key stored' : 'No key stored',
+			provider
+		})));
+		const selected = await vscode.window.showQuickPick(items, { placeHolder });
+		return selected?.provider;
+	}
+
+	async promptForApiKey(provider: CredentialProvider, existingKey?: string): Promise<string | undefined> {
+		const apiKey = await vscode.window.showInputBox({
+			title: `What-The-Code: ${provider.label} API Key`,
+			prompt: existingKey
+				? `Enter the new ${provider.label} API key (replaces key ending in ...${existingKey.slice(-4)})`
+				: `Enter your ${provider.label} API key`,
+			password: true,
+			ignoreFocusOut: true,
+			validateInput: value => value.trim().length === 0 ? 'API key cannot be empty' : undefined
+		});
+		return apiKey?.trim();
+	}
+
+	private secretKey(providerId: string): string {
+		return `whatTheCode.apiKey.${providerId}`;
+	}
+}
@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { FileDiscovery } from './fileDiscovery';
+import { ProjectFile } from './getProjectFiles';
+
+export interface CssSelector {
+    kind: 'class' | 'id';
+    name: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+const STYLESHEET_PATTERN = /\.(css|scss|sass|less)$/i;
+const CLASS_NAME_HELPERS = ['classnames', 'classNames', 'clsx', 'cx', 'cn', 'twMerge', 'twJoin', 'cva'];
+const SELECTOR_METHODS = ['querySelector', 'querySelectorAll', 'closest', 'matches', '$', 'jQuery'];
+const CLASS_LIST_METHODS = ['add', 'remove', 'toggle', 'contains', 'replace'];
+
+type ReferenceContext = 'class' | 'id' | 'selector' | undefined;
+
+/**
+ * Finds class and id selectors in a stylesheet. Only rule preludes are looked
+ * at, so hex colours and numbers in declarations are never mistaken for selectors.
+ */
+export function extractSelectors(content: string, filePath: string = ''): CssSelector[] {
+    const code = blankStringsAndComments(content, /\.(scss|less)$/i.test(filePath));
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    const toPosition = (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    };
+
+    const selectors: CssSelector[] = [];
+    let preludeStart = 0;
+    for (let i = 0; i < code.length; i++) {
+        const char = code[i];
+        if (char === '#' && code[i + 1] === '{') {
+            // Sass interpolation, part of whatever prelude or value it sits in
+            const end = code.indexOf('}', i);
+            i = end === -1 ? code.length : end;
+        } else if (char === '}' || char === ';') {
+            preludeStart = i + 1;
+        } else if (char === '{') {
+            const prelude = code.substring(preludeStart, i);
+            if (!prelude.trim().startsWith('@')) {
+                const tokenRegex = /([.#])(-?(?:[_a-zA-Z]|\\.)(?:[\w-]|\\.)*)(#\{)?/g;
+                let match;
+                while ((match = tokenRegex.exec(prelude)) !== null) {
+                    const rawName = match[2];
+                    // `.btn-#{$size}` is only half a name, and `.5s` style numbers never start a match
+                    if (match[3] || rawName.endsWith('-')) {
+                        continue;
+                    }
+                    const start = preludeStart + match.index;
+                    const startPosition = toPosition(start);
+                    const endPosition = toPosition(start + 1 + rawName.length);
+                    selectors.push({
+                        kind: match[1] === '.' ? 'class' : 'id',
+                        name: rawName.replace(/\\(.)/g, '$1'),
+                        line: startPosition.line,
+                        column: startPosition.column,
+                        endLine: endPosition.line,
+                        endColumn: endPosition.column
+                    });
+                }
+            }
+            preludeStart = i + 1;
+        }
+    }
+    return selectors;
+}
+
+function blankStringsAndComments(content: string, lineComments: boolean): string {
+    const blank = (text: string) => text.replace(/[^\r\n]/g, ' ');
+    const pattern = lineComments
+        ? /\/\*[\s\S]*?(?:\*\/|$)|(?<![:\w])\/\/[^\n]*|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g
+        : /\/\*[\s\S]*?(?:\*\/|$)|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g;
+    return content.replace(pattern, blank);
+}
+
+/**
+ * Every class and id the project's scripts, markup and stylesheets refer to:
+ * JSX className, HTML class/id, template literals, CSS Modules `styles.foo`,
+ * classnames()/clsx() calls, classList and querySelector arguments.
+ */
+export class CssUsageIndex {
+    static readonly MARKUP_EXTENSIONS = ['.html', '.htm', '.vue', '.svelte'];
+
+    private classes: Set<string> = new Set();
+    private ids: Set<string> = new Set();
+    // Plain string tokens anywhere in scripts and markup; a class kept in a lookup table still counts as used
+    private tokens: Set<string> = new Set();
+    // Built dynamically, e.g. `btn-${size}`
+    private prefixes: Set<string> = new Set();
+
+    static async build(files: ProjectFile[]): Promise<CssUsageIndex> {
+        const index = new CssUsageIndex();
+        const sources = files.map(file => file.filePath);
+
+        const discovery = new FileDiscovery();
+        for (const rootPath of new Set(files.map(file => file.rootPath))) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath));
+            if (folder) {
+                const markup = await discovery.findFiles(folder, { extensions: CssUsageIndex.MARKUP_EXTENSIONS });
+                sources.push(...markup.map(uri => uri.fsPath));
+            }
+        }
+
+        for (const filePath of sources) {
+            try {
+                index.addSource(await fs.promises.readFile(filePath, 'utf8'), filePath);
+            } catch (error) {
+                console.warn(`Error reading ${filePath} for CSS usage index:`, error);
+            }
+        }
+        return index;
+    }
+
+    static isStylesheet(filePath: string): boolean {
+        return STYLESHEET_PATTERN.test(filePath);
+    }
+
+    addSource(content: string, filePath: string): void {
+        const extension = path.extname(filePath).toLowerCase();
+        if (SCRIPT_EXTENSIONS.includes(extension)) {
+            this.addScript(content, filePath);
+        } else if (CssUsageIndex.MARKUP_EXTENSIONS.includes(extension)) {
+            this.addMarkup(content);
+        } else if (CssUsageIndex.isStylesheet(filePath)) {
+            this.addStylesheet(content);
+        }
+    }
+
+    isClassUsed(name: string): boolean {
+        return this.classes.has(name) || this.tokens.has(name) || this.hasUsedPrefix(name);
+    }
+
+    isIdUsed(name: string): boolean {
+        return this.ids.has(name) || this.tokens.has(name) || this.hasUsedPrefix(name);
+    }
+
+    private hasUsedPrefix(name: string): boolean {
+        for (const prefix of this.prefixes) {
+            if (name.startsWith(prefix)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private addScript(content: string, filePath: string): void {
+        const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true,
+            /\.[jt]sx$/i.test(filePath) ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+        const styleModules = this.findStylesheetImports(sourceFile);
+
+        const visit = (node: ts.Node, context: ReferenceContext): void => {
+            if (ts.isStringLiteralLike(node)) {
+                this.addText(node.text, context, false, false);
+                return;
+            }
+            if (ts.isTemplateExpression(node)) {
+                this.addText(node.head.text, context, false, node.templateSpans.length > 0);
+                node.templateSpans.forEach((span, index) => {
+                    visit(span.expression, context);
+                    this.addText(span.literal.text, context, true, index < node.templateSpans.length - 1);
+                });
+                return;
+            }
+
+            // CSS Modules: styles.button / styles['button-primary']
+            if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && styleModules.has(node.expression.text)) {
+                this.addCssModuleName(node.name.text);
+            } else if (ts.isElementAccessExpression(node) && ts.isIdentifier(node.expression)
+                && styleModules.has(node.expression.text) && ts.isStringLiteralLike(node.argumentExpression)) {
+                this.addCssModuleName(node.argumentExpression.text);
+            }
+
+            if (context === 'class' && ts.isPropertyAssignment(node) && (ts.isIdentifier(node.name) || ts.isStringLiteralLike(node.name))) {
+                // classnames({ active: isActive })
+                this.classes.add(node.name.text);
+            } else if (context === 'class' && ts.isShorthandPropertyAssignment(node)) {
+                this.classes.add(node.name.text);
+            }
+
+            ts.forEachChild(node, child => visit(child, this.getChildContext(node, child, context)));
+        };
+        visit(sourceFile, undefined);
+    }
+
+    private getChildContext(parent: ts.Node, child: ts.Node, inherited: ReferenceContext): ReferenceContext {
+        if (ts.isJsxAttribute(parent) && child === parent.initializer) {
+            const name = parent.name.getText();
+            if (['className', 'class', 'classList'].includes(name)) {
+                return 'class';
+            }
+            if (['id', 'htmlFor', 'for'].includes(name) || name.startsWith('aria-')) {
+                return 'id';
+            }
+            return inherited;
+        }
+
+        if (ts.isCallExpression(parent) && parent.arguments.includes(child as ts.Expression)) {
+            const callee = parent.expression;
+            const calleeName = ts.isIdentifier(callee) ? callee.text
+                : ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+            if (CLASS_NAME_HELPERS.includes(calleeName)) {
+                return 'class';
+            }
+            if (ts.isPropertyAccessExpression(callee) && CLASS_LIST_METHODS.includes(calleeName)
+                && ts.isPropertyAccessExpression(callee.expression) && callee.expression.name.text === 'classList') {
+                return 'class';
+            }
+            if (calleeName === 'getElementById') {
+                return 'id';
+            }
+            if (SELECTOR_METHODS.includes(calleeName)) {
+                return 'selector';
+            }
+            if (calleeName === 'setAttribute' && parent.arguments[1] === child && ts.isStringLiteralLike(parent.arguments[0])) {
+                const attribute = parent.arguments[0].text;
+                return attribute === 'class' ? 'class' : attribute === 'id' ? 'id' : inherited;
+            }
+        }
+
+        // element.className = 'a b' / element.id = 'x'
+        if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken
+            && child === parent.right && ts.isPropertyAccessExpression(parent.left)) {
+            const property = parent.left.name.text;
+            return property === 'className' ? 'class' : property === 'id' ? 'id' : inherited;
+        }
+        return inherited;
+    }
+
+    private findStylesheetImports(sourceFile: ts.SourceFile): Set<string> {
+        const names = new Set<string>();
+        for (const statement of sourceFile.statements) {
+            if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)
+                && CssUsageIndex.isStylesheet(statement.moduleSpecifier.text) && statement.importClause) {
+                const { name, namedBindings } = statement.importClause;
+                if (name) {
+                    names.add(name.text);
+                }
+                if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                    names.add(namedBindings.name.text);
+                } else if (namedBindings) {
+                    // import { button } from './x.module.css'
+                    namedBindings.elements.forEach(element => this.addCssModuleName((element.propertyName || element.name).text));
+                }
+            } else if (ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList.declarations) {
+                    const initializer = declaration.initializer;
+                    if (ts.isIdentifier(declaration.name) && initializer && ts.isCallExpression(initializer)
+                        && ts.isIdentifier(initializer.expression) && initializer.expression.text === 'require'
+                        && initializer.arguments.length > 0 && ts.isStringLiteralLike(initializer.arguments[0])
+                        && CssUsageIndex.isStylesheet(initializer.arguments[0].text)) {
+                        names.add(declaration.name.text);
+                    }
+                }
+            }
+        }
+        return names;
+    }
+
+    /** CSS Modules can camelCase class names, so `styles.buttonPrimary` may mean `.button-primary`. */
+    private addCssModuleName(name: string): void {
+        this.classes.add(name);
+        this.classes.add(name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`));
+    }
+
+    /**
+     * @param joinedBefore the text continues an interpolation, so its first token is a fragment
+     * @param joinedAfter an interpolation follows, so the last token is the start of a dynamic name
+     */
+    private addText(text: string, context: ReferenceContext, joinedBefore: boolean, joinedAfter: boolean): void {
+        this.addMarkupAttributes(text);
+
+        if (context === 'selector') {
+            this.addSelectorText(text);
+        }
+
+        const parts = text.split(/\s+/);
+        parts.forEach((part, index) => {
+            if (!part || (joinedBefore && index === 0 && !/^\s/.test(text))) {
+                return;
+            }
+            const isLast = index === parts.length - 1;
+            if ((joinedAfter && isLast && !/\s$/.test(text)) || /[-_]$/.test(part)) {
+                // Only `btn-` style stems, a bare `a` before `${x}` would match half the stylesheet
+                if (/^-?[a-zA-Z][\w-]*[-_]$/.test(part)) {
+                    this.prefixes.add(part);
+                }
+                return;
+            }
+            this.tokens.add(part);
+            if (context === 'class') {
+                this.classes.add(part);
+            } else if (context === 'id') {
+                this.ids.add(part.replace(/^#/, ''));
+            }
+        });
+    }
+
+    private addSelectorText(selector: string): void {
+        const tokenRegex = /([.#])(-?[_a-zA-Z][\w-]*)/g;
+        let match;
+        while ((match = tokenRegex.exec(selector)) !== null) {
+            (match[1] === '.' ? this.classes : this.ids).add(match[2]);
+        }
+    }
+
+    /** class="..." / id="..." inside HTML, Vue/Svelte templates and template literals. */
+    private addMarkupAttributes(text: string): void {
+        // A template literal chunk can end mid-attribute: `<div class="card ${extra}">`
+        const attributeRegex = /(?:^|[\s<])(?::|v-bind:)?(class|className|id|for|href|aria-[\w-]+)\s*=\s*(["'])([\s\S]*?)(?:\2|$)/g;
+        let match;
+        while ((match = attributeRegex.exec(text)) !== null) {
+            const [, attribute, , value] = match;
+            const target = ['class', 'className'].includes(attribute) ? this.classes : this.ids;
+            if (attribute === 'href') {
+                if (value.startsWith('#')) {
+                    this.ids.add(value.substring(1));
+                }
+                continue;
+            }
+            // Also covers Vue's :class="{ active: isActive }" and ['a', 'b'] forms
+            value.split(/[\s{}[\](),'"`!?&|]+/)
+                .map(part => part.replace(/:$/, ''))
+                .filter(Boolean)
+                .forEach(part => target.add(part));
+        }
+
+        // Svelte's class:active={isActive}
+        const directiveRegex = /\bclass:([\w-]+)/g;
+        while ((match = directiveRegex.exec(text)) !== null) {
+            this.classes.add(match[1]);
+        }
+    }
+
+    private addMarkup(content: string): void {
+        this.addMarkupAttributes(content);
+        const stringRegex = /(["'`])((?:\\.|(?!\1)[^\\])*)\1/g;
+        let match;
+        while ((match = stringRegex.exec(content)) !== null) {
+            match[2].split(/\s+/).filter(Boolean).forEach(part => this.tokens.add(part));
+        }
+    }
+
+    /** Sass @extend and CSS Modules composes make one selector use another. */
+    private addStylesheet(content: string): void {
+        const extendRegex = /@extend\s+([^;{}]+)/g;
+        let match;
+        while ((match = extendRegex.exec(content)) !== null) {
+            this.addSelectorText(match[1]);
+        }
+
+        const composesRegex = /composes\s*:\s*([^;]+?)(?:\s+from\s+[^;]+)?\s*;/g;
+        while ((match = composesRegex.exec(content)) !== null) {
+            match[1].split(/\s+/).filter(Boolean).forEach(name => this.classes.add(name));
+        }
+    }
+}
@@ -1,4 +1,11 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { DeadCodeIssue } from './analyzeDeadCode';
+import { DeadCodeFinder } from './deadCodeFinder';
+import { DeadCodeRemover } from './deadCodeRemover';
+
+type Confidence = DeadCodeIssue['confidence'];
+type Category = DeadCodeIssue['category'];
 
 export class DeadCodeActionItem extends vscode.TreeItem {
     constructor(
@@ -23,12 +30,64 @@ export class DeadCodeActionItem extends vscode.TreeItem {
     }
 }
 
-export class DeadCodeActionsProvider implements vscode.TreeDataProvider<DeadCodeActionItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<DeadCodeActionItem | undefined | null | void> = new vscode.EventEmitter<DeadCodeActionItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<DeadCodeActionItem | undefined | null | void> = this._onDidChangeTreeData.event;
+class DeadCodeFindingsItem extends vscode.TreeItem {
+    constructor(label: string, description: string, tooltip: string) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = description;
+        this.tooltip = tooltip;
+        this.iconPath = new vscode.ThemeIcon('warning');
+        this.contextValue = 'deadCodeFindings';
+    }
+}
+
+class DeadCodeFileItem extends vscode.TreeItem {
+    constructor(public readonly filePath: string, relativePath: string, public readonly issues: DeadCodeIssue[]) {
+        super(relativePath, vscode.TreeItemCollapsibleState.Collapsed);
+        this.resourceUri = vscode.Uri.file(filePath);
+        this.description = `${issues.length} issue${issues.length === 1 ? '' : 's'}`;
+        this.tooltip = `${relativePath}: ${this.description}`;
+        this.contextValue = 'deadCodeFile';
+    }
+}
+
+class DeadCodeTypeItem extends vscode.TreeItem {
+    constructor(public readonly type: DeadCodeIssue['type'], public readonly issues: DeadCodeIssue[]) {
+        super(`${DeadCodeFinder.getIssueIcon(type)} ${type}`, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${issues.length}`;
+        this.contextValue = 'deadCodeType';
+    }
+}
+
+export class DeadCodeIssueItem extends vscode.TreeItem {
+    constructor(public readonly issue: DeadCodeIssue) {
+        super(`${DeadCodeFinder.getConfidenceIcon(issue.confidence)} ${issue.name}`, vscode.TreeItemCollapsibleState.None);
+        this.description = `Line ${issue.line}${issue.category === 'dead-code' ? '' : ` · ${issue.category}`}`;
+        this.tooltip = `${issue.description}\nConfidence: ${issue.confidence} · ${issue.category}`;
+        const position = new vscode.Position(Math.max(0, issue.line - 1), Math.max(0, issue.column - 1));
+        this.command = {
+            command: 'vscode.open',
+            title: 'Go to Finding',
+            arguments: [vscode.Uri.file(issue.filePath), { selection: new vscode.Range(position, position) }]
+        };
+        this.contextValue = DeadCodeRemover.canRemove(issue) ? 'deadCodeIssueRemovable' : 'deadCodeIssue';
+    }
+}
+
+const CONFIDENCE_LEVELS: Confidence[] = ['high', 'medium', 'low'];
+const CATEGORIES: Category[] = ['dead-code', 'rarely-used', 'test-only'];
+
+export class DeadCodeActionsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private lastAnalysisTime: Date | null = null;
-    private lastAnalysisResults: number = 0;
+    private issues: DeadCodeIssue[] = [];
+    private confidenceFilter: Set<Confidence> = new Set(CONFIDENCE_LEVELS);
+    private categoryFilter: Set<Category> = new Set(CATEGORIES);
+    // Set when a baseline was recorded; only these findings are shown while baselineOnly is on
+    private newIssues?: Set<DeadCodeIssue>;
+    private baselineOnly = true;
+    private changedFilesScope = 'All files';
 
     constructor() {}
 
@@ -36,30 +95,103 @@ export class DeadCodeActionsProvider implements vscode.TreeDataProvider<DeadCode
         this._onDidChangeTreeData.fire();
     }
 
-    updateAnalysisResults(issuesFound: number): void {
-        this.lastAnalysisTime = new Date();
-        this.lastAnalysisResults = issuesFound;
+    updateAnalysisResults(issues: DeadCodeIssue[], newIssues?: DeadCodeIssue[], analyzedAt: Date = new Date()): void {
+        this.lastAnalysisTime = analyzedAt;
+        this.issues = issues;
+        this.newIssues = newIssues ? new Set(newIssues) : undefined;
+        this.refresh();
+    }
+
+    updateChangedFilesScope(label: string): void {
+        this.changedFilesScope = label;
+        this.refresh();
+    }
+
+    hasBaseline(): boolean {
+        return !!this.newIssues;
+    }
+
+    isBaselineOnly(): boolean {
+        return !!this.newIssues && this.baselineOnly;
+    }
+
+    toggleBaselineOnly(): boolean {
+        this.baselineOnly = !this.baselineOnly;
+        this.refresh();
+        return this.isBaselineOnly();
+    }
+
+    /** Drops a finding that was removed or ignored without waiting for the next analysis. */
+    removeIssue(issue: DeadCodeIssue): void {
+        this.issues = this.issues.filter(other =>
+            other.filePath !== issue.filePath || other.type !== issue.type || other.name !== issue.name
+        );
         this.refresh();
     }
 
-    getTreeItem(element: DeadCodeActionItem): vscode.TreeItem {
+    async selectConfidenceFilter(): Promise<void> {
+        const picked = await vscode.window.showQuickPick(
+            CONFIDENCE_LEVELS.map(confidence => ({
+                label: `${DeadCodeFinder.getConfidenceIcon(confidence)} ${confidence}`,
+                confidence,
+                picked: this.confidenceFilter.has(confidence)
+            })),
+            { canPickMany: true, placeHolder: 'Show findings with these confidence levels' }
+        );
+        if (picked) {
+            this.confidenceFilter = new Set(picked.map(item => item.confidence));
+            this.refresh();
+        }
+    }
+
+    async selectCategoryFilter(): Promise<void> {
+        const picked = await vscode.window.showQuickPick(
+            CATEGORIES.map(category => ({ label: category, category, picked: this.categoryFilter.has(category) })),
+            { canPickMany: true, placeHolder: 'Show findings in these categories' }
+        );
+        if (picked) {
+            this.categoryFilter = new Set(picked.map(item => item.category));
+            this.refresh();
+        }
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: DeadCodeActionItem): Thenable<DeadCodeActionItem[]> {
+    getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+        if (element instanceof DeadCodeFindingsItem) {
+            return Promise.resolve(this.getFileItems());
+        }
+        if (element instanceof DeadCodeFileItem) {
+            const byType = new Map<DeadCodeIssue['type'], DeadCodeIssue[]>();
+            element.issues.forEach(issue => byType.set(issue.type, [...byType.get(issue.type) || [], issue]));
+            return Promise.resolve([...byType].map(([type, issues]) => new DeadCodeTypeItem(type, issues)));
+        }
+        if (element instanceof DeadCodeTypeItem) {
+            return Promise.resolve([...element.issues].sort((a, b) => a.line - b.line).map(issue => new DeadCodeIssueItem(issue)));
+        }
         if (!element) {
-            const items: DeadCodeActionItem[] = [
+            const lastAnalysisResults = this.issues.length;
+            const items: vscode.TreeItem[] = [
                 new DeadCodeActionItem(
                     '🧹 Analyze Dead Code',
                     'Find unused code in project',
                     'what-the-code.findDeadCode',
                     new vscode.ThemeIcon('search-remove'),
                     'Analyze your codebase to find potentially unused imports, functions, variables, and components. This helps clean up your code and reduce bundle size.'
+                ),
+                new DeadCodeActionItem(
+                    '🔀 Files to Analyze',
+                    this.changedFilesScope,
+                    'what-the-code.selectChangedFilesScope',
+                    new vscode.ThemeIcon('git-compare'),
+                    `Dead code analysis and project reports currently cover: ${this.changedFilesScope}. Click to analyze only files changed against HEAD, a branch or the staged set`
                 )
             ];
 
             
-            if (this.lastAnalysisTime && this.lastAnalysisResults > 0) {
+            if (this.lastAnalysisTime && lastAnalysisResults > 0) {
                 items.push(
                     new DeadCodeActionItem(
                         '✅ Remove (Safe)',
@@ -96,16 +228,16 @@ export class DeadCodeActionsProvider implements vscode.TreeDataProvider<DeadCode
                         `Last analysis completed ${timeAgo}`,
                         true
                     ),
-                    new DeadCodeActionItem(
-                        this.lastAnalysisResults === 0 ? '✅ No Issues Found' : `⚠️ ${this.lastAnalysisResults} Issues Found`,
-                        this.lastAnalysisResults === 0 ? 'Code looks clean!' : 'Click to view report',
-                        this.lastAnalysisResults > 0 ? 'what-the-code.findDeadCode' : undefined,
-                        new vscode.ThemeIcon(this.lastAnalysisResults === 0 ? 'check' : 'warning'),
-                        this.lastAnalysisResults === 0 
-                            ? 'No obvious dead code detected in your last analysis'
-                            : `Found ${this.lastAnalysisResults} potential issues. Click to run analysis again and view detailed report.`,
-                        true
-                    )
+                    lastAnalysisResults === 0
+                        ? new DeadCodeActionItem(
+                            '✅ No Issues Found',
+                            'Code looks clean!',
+                            undefined,
+                            new vscode.ThemeIcon('check'),
+                            'No obvious dead code detected in your last analysis',
+                            true
+                        )
+                        : this.createFindingsItem()
                 );
             } else {
                 items.push(
@@ -144,6 +276,37 @@ export class DeadCodeActionsProvider implements vscode.TreeDataProvider<DeadCode
         return Promise.resolve([]);
     }
 
+    private createFindingsItem(): DeadCodeFindingsItem {
+        const shown = this.getVisibleIssues().length;
+        const filtered = shown < this.issues.length;
+        const description = this.isBaselineOnly()
+            ? `${shown} new since baseline`
+            : filtered ? `showing ${shown}` : 'by file and type';
+        return new DeadCodeFindingsItem(
+            `⚠️ ${this.issues.length} Issues Found`,
+            description,
+            filtered
+                ? `${this.isBaselineOnly() ? 'The baseline and filters' : 'Filters'} hide ${this.issues.length - shown} finding(s). Use the buttons in the view title to change them.`
+                : 'Click a finding to jump to it. Hover for remove, ignore and report actions.'
+        );
+    }
+
+    private getVisibleIssues(): DeadCodeIssue[] {
+        return this.issues.filter(issue =>
+            this.confidenceFilter.has(issue.confidence)
+            && this.categoryFilter.has(issue.category)
+            && (!this.isBaselineOnly() || this.newIssues!.has(issue))
+        );
+    }
+
+    private getFileItems(): DeadCodeFileItem[] {
+        const byFile = new Map<string, DeadCodeIssue[]>();
+        this.getVisibleIssues().forEach(issue => byFile.set(issue.filePath, [...byFile.get(issue.filePath) || [], issue]));
+        return [...byFile]
+            .map(([filePath, issues]) => new DeadCodeFileItem(filePath, vscode.workspace.asRelativePath(filePath) || path.basename(filePath), issues))
+            .sort((a, b) => String(a.label).localeCompare(String(b.label)));
+    }
+
     private formatTimeAgo(date: Date): string {
         const now = new Date();
         const diffMs = now.getTime() - date.getTime();
@@ -169,7 +332,7 @@ export class DeadCodeActionsProvider implements vscode.TreeDataProvider<DeadCode
         return date.toLocaleDateString();
     }
 
-    getParent(element: DeadCodeActionItem): vscode.ProviderResult<DeadCodeActionItem> {
+    getParent(element: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem> {
         return null;
     }
 
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import { DeadCodeIssue, SourceRange } from './analyzeDeadCode';
+import { DeadCodeRemover } from './deadCodeRemover';
+import { ACKNOWLEDGED_FILE, acknowledgeFinding, isAcknowledged } from './suppressions';
+
+const DIAGNOSTIC_SOURCE = 'What-The-Code';
+
+/**
+ * Publishes dead code findings as faded (Unnecessary) diagnostics. Ranges follow
+ * edits until the next analysis; ignored findings go to whatthecode.acknowledged.json.
+ */
+export class DeadCodeDiagnostics implements vscode.Disposable {
+    private collection: vscode.DiagnosticCollection;
+    private issues: Map<vscode.Diagnostic, DeadCodeIssue> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('what-the-code-dead-code');
+        this.disposables.push(
+            this.collection,
+            vscode.workspace.onDidChangeTextDocument(event => this.shiftDiagnostics(event))
+        );
+    }
+
+    publish(issues: DeadCodeIssue[]): void {
+        this.collection.clear();
+        this.issues.clear();
+
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const issue of issues) {
+            if (this.isIgnored(issue)) {
+                continue;
+            }
+            const diagnostic = this.createDiagnostic(issue);
+            this.issues.set(diagnostic, issue);
+            byFile.set(issue.filePath, [...byFile.get(issue.filePath) || [], diagnostic]);
+        }
+        byFile.forEach((diagnostics, filePath) => this.collection.set(vscode.Uri.file(filePath), diagnostics));
+    }
+
+    getIssue(diagnostic: vscode.Diagnostic): DeadCodeIssue | undefined {
+        return this.issues.get(diagnostic);
+    }
+
+    isIgnored(issue: DeadCodeIssue): boolean {
+        return isAcknowledged(issue.filePath, issue.type, issue.name);
+    }
+
+    async ignore(issue: DeadCodeIssue): Promise<boolean> {
+        if (!await acknowledgeFinding(issue.filePath, issue.type, issue.name)) {
+            vscode.window.showWarningMessage(`Only findings inside a workspace folder can be ignored, ${ACKNOWLEDGED_FILE} lives in the folder root.`);
+            return false;
+        }
+
+        const uri = vscode.Uri.file(issue.filePath);
+        const remaining = (this.collection.get(uri) || []).filter(diagnostic => {
+            const match = this.issues.get(diagnostic);
+            return !match || this.getKey(match) !== this.getKey(issue);
+        });
+        this.collection.set(uri, remaining);
+        return true;
+    }
+
+    private createDiagnostic(issue: DeadCodeIssue): vscode.Diagnostic {
+        const start = new vscode.Position(Math.max(0, issue.line - 1), Math.max(0, issue.column - 1));
+        const end = issue.endLine && issue.endColumn
+            ? new vscode.Position(issue.endLine - 1, issue.endColumn - 1)
+            : issue.type === 'unused-module' || issue.type === 'orphan-file'
+                ? start
+                : start.translate(0, issue.name.length);
+
+        const severity = issue.confidence === 'high'
+            ? vscode.DiagnosticSeverity.Warning
+            : issue.confidence === 'medium'
+                ? vscode.DiagnosticSeverity.Information
+                : vscode.DiagnosticSeverity.Hint;
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(start, end), issue.description, severity);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = issue.type;
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        return diagnostic;
+    }
+
+    /** Moves diagnostics and their findings after an edit by the text it added or removed, drops those it touched. */
+    private shiftDiagnostics(event: vscode.TextDocumentChangeEvent): void {
+        let diagnostics = this.collection.get(event.document.uri);
+        if (!diagnostics || diagnostics.length === 0 || event.contentChanges.length === 0) {
+            return;
+        }
+
+        for (const change of event.contentChanges) {
+            const shifted: vscode.Diagnostic[] = [];
+            for (const diagnostic of diagnostics) {
+                const range = this.shiftRange(diagnostic.range, change);
+                const issue = this.issues.get(diagnostic);
+                this.issues.delete(diagnostic);
+                if (!range) {
+                    continue;
+                }
+                if (range.isEqual(diagnostic.range)) {
+                    if (issue) {
+                        this.issues.set(diagnostic, issue);
+                    }
+                    shifted.push(diagnostic);
+                    continue;
+                }
+
+                const moved = new vscode.Diagnostic(range, diagnostic.message, diagnostic.severity);
+                moved.source = diagnostic.source;
+                moved.code = diagnostic.code;
+                moved.tags = diagnostic.tags;
+                if (issue) {
+                    this.issues.set(moved, this.shiftIssue(issue, range, change));
+                }
+                shifted.push(moved);
+            }
+            diagnostics = shifted;
+        }
+        this.collection.set(event.document.uri, diagnostics);
+    }
+
+    /** The range after the change, or undefined when the change overlaps it. */
+    private shiftRange(range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): vscode.Range | undefined {
+        if (range.end.isBefore(change.range.start)) {
+            return range;
+        }
+        if (range.start.isBefore(change.range.end)) {
+            return undefined;
+        }
+
+        // Positions after the change move with the end of the inserted text
+        const insertedLines = change.text.split('\n');
+        const newEnd = insertedLines.length === 1
+            ? change.range.start.translate(0, change.text.length)
+            : new vscode.Position(change.range.start.line + insertedLines.length - 1, insertedLines[insertedLines.length - 1].length);
+        const shift = (position: vscode.Position) => position.line === change.range.end.line
+            ? new vscode.Position(newEnd.line, newEnd.character + position.character - change.range.end.character)
+            : position.translate(newEnd.line - change.range.end.line);
+        return new vscode.Range(shift(range.start), shift(range.end));
+    }
+
+    /** Copy of the finding rebased onto its moved diagnostic, so removal and suppression still hit the right code. */
+    private shiftIssue(issue: DeadCodeIssue, range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): DeadCodeIssue {
+        const shiftSourceRange = <T extends SourceRange>(sourceRange: T | undefined): T | undefined => {
+            const original = sourceRange && new vscode.Range(sourceRange.line - 1, sourceRange.column - 1, sourceRange.endLine - 1, sourceRange.endColumn - 1);
+            // Removals can end at the start of the next line, typing there leaves them intact
+            const moved = original && (original.end.isEqual(change.range.start) ? original : this.shiftRange(original, change));
+            return moved && {
+                ...sourceRange,
+                line: moved.start.line + 1,
+                column: moved.start.character + 1,
+                endLine: moved.end.line + 1,
+                endColumn: moved.end.character + 1
+            };
+        };
+
+        return {
+            ...issue,
+            line: range.start.line + 1,
+            column: range.start.character + 1,
+            endLine: issue.endLine === undefined ? undefined : range.end.line + 1,
+            endColumn: issue.endColumn === undefined ? undefined : range.end.character + 1,
+            declaration: shiftSourceRange(issue.declaration),
+            removal: shiftSourceRange(issue.removal)
+        };
+    }
+
+    private getKey(issue: DeadCodeIssue): string {
+        return `${issue.filePath}|${issue.type}|${issue.name}`;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.issues.clear();
+    }
+}
+
+export class DeadCodeCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private diagnostics: DeadCodeDiagnostics, private remover: DeadCodeRemover) {}
+
+    async provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): Promise<vscode.CodeAction[]> {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            const issue = diagnostic.source === DIAGNOSTIC_SOURCE ? this.diagnostics.getIssue(diagnostic) : undefined;
+            if (!issue) {
+                continue;
+            }
+
+            const title = this.getRemovalTitle(issue);
+            const edit = title ? await this.remover.createRemovalEdit(document, issue) : undefined;
+            if (title && edit) {
+                const remove = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+                remove.edit = edit;
+                remove.diagnostics = [diagnostic];
+                // Only whole statements are safe enough for the auto-fix shortcut
+                remove.isPreferred = issue.confidence === 'high' && !!issue.removal?.wholeStatement;
+                actions.push(remove);
+            }
+
+            if (issue.type !== 'unused-module' && issue.type !== 'orphan-file') {
+                const suppress = new vscode.CodeAction(`Suppress ${issue.type} with a comment`, vscode.CodeActionKind.QuickFix);
+                suppress.edit = this.createSuppressionEdit(document, diagnostic, issue);
+                suppress.diagnostics = [diagnostic];
+                actions.push(suppress);
+            }
+
+            const ignore = new vscode.CodeAction('Ignore this finding', vscode.CodeActionKind.QuickFix);
+            ignore.diagnostics = [diagnostic];
+            ignore.command = {
+                command: 'what-the-code.ignoreDeadCodeFinding',
+                title: 'Ignore this finding',
+                arguments: [issue]
+            };
+            actions.push(ignore);
+        }
+        return actions;
+    }
+
+    private createSuppressionEdit(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, issue: DeadCodeIssue): vscode.WorkspaceEdit {
+        // The diagnostic follows edits, the finding's line is from the last analysis
+        const line = document.lineAt(Math.min(diagnostic.range.start.line, document.lineCount - 1));
+        const indent = line.text.slice(0, line.firstNonWhitespaceCharacterIndex);
+        const comment = ['css', 'scss', 'less'].includes(document.languageId)
+            ? `/* wtc-ignore-next-line ${issue.type} */`
+            : `// wtc-ignore-next-line ${issue.type}`;
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, line.range.start, `${indent}${comment}\n`);
+        return edit;
+    }
+
+    private getRemovalTitle(issue: DeadCodeIssue): string | undefined {
+        switch (issue.type) {
+            case 'unused-import':
+                return 'Remove unused import';
+            case 'unused-function':
+                return 'Remove unused function';
+            case 'unused-component':
+                return 'Remove unused component';
+            case 'unused-variable':
+                return 'Remove unused variable';
+            default:
+                return undefined;
+        }
+    }
+}
@@ -1,13 +1,26 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ProjectFileCollector, ProjectFile } from './getProjectFiles';
 import { DeadCodeAnalyzer, DeadCodeIssue } from './analyzeDeadCode';
 import { CodeQualityAnalyzer, CodeQualityMetrics } from './codeQualityAnalyzer';
+import { ReferenceGraph } from './referenceGraph';
+import { CssUsageIndex } from './cssUsageIndex';
+import { EntryPointResolver } from './entryPoints';
+import { BaselineFinding, FindingsBaseline } from './findingsBaseline';
+
+export interface DeadCodeBaselineComparison {
+    recordedAt: Date;
+    newIssues: DeadCodeIssue[];
+    resolved: BaselineFinding[];
+}
 
 export class DeadCodeFinder {
     private outputChannel: vscode.OutputChannel;
     private analyzer: DeadCodeAnalyzer;
     private codeQualityAnalyzer: CodeQualityAnalyzer;
     private lastAnalysisResults: DeadCodeIssue[] = [];
+    private lastAnalysisTime?: Date;
+    private lastBaselineComparison?: DeadCodeBaselineComparison;
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('Dead Code Finder');
@@ -19,7 +32,22 @@ export class DeadCodeFinder {
         return this.lastAnalysisResults;
     }
 
-    async findDeadCode(): Promise<void> {
+    getLastAnalysisTime(): Date | undefined {
+        return this.lastAnalysisTime;
+    }
+
+    /** Undefined when none of the analyzed folders has a recorded baseline. */
+    getBaselineComparison(): DeadCodeBaselineComparison | undefined {
+        return this.lastBaselineComparison;
+    }
+
+    /** Everything from the last analysis is in the baseline that was just recorded. */
+    markBaselineRecorded(): void {
+        this.lastBaselineComparison = { recordedAt: new Date(), newIssues: [], resolved: [] };
+    }
+
+    /** With changedFiles only those files are analyzed, the reference graph still covers every file. */
+    async findDeadCode(folders?: readonly vscode.WorkspaceFolder[], changedFiles?: Set<string>): Promise<void> {
         try {
             this.outputChannel.clear();
             this.outputChannel.show(true);
@@ -35,19 +63,27 @@ export class DeadCodeFinder {
                 
                 progress.report({ increment: 10, message: 'Collecting project files...' });
                 const collector = new ProjectFileCollector();
-                const files = await collector.collectProjectFiles();
+                const files = await collector.collectProjectFiles(folders);
+                const analyzedFiles = changedFiles ? files.filter(file => changedFiles.has(file.filePath)) : files;
                 
-                const sessionId = performanceMonitor.startAnalysisSession(files.length);
+                const sessionId = performanceMonitor.startAnalysisSession(analyzedFiles.length);
                 
                 if (token.isCancellationRequested) {
                     return;
                 }
 
                 const fileStats = collector.getFileCount(files);
+                if (folders && folders.length < (vscode.workspace.workspaceFolders?.length || 0)) {
+                    this.log(`📂 Folders: ${folders.map(folder => folder.name).join(', ')}`);
+                }
                 this.log(`📁 Found ${fileStats.total} source files:`);
                 Object.entries(fileStats.byExtension).forEach(([ext, count]) => {
                     this.log(`   ${ext}: ${count} files`);
                 });
+                if (changedFiles) {
+                    this.log(`🔀 Changed: ${analyzedFiles.length} file(s), only these are analyzed (usages are still checked across all files)`);
+                    analyzedFiles.forEach(file => this.log(`   ${file.relativePath}`));
+                }
                 this.log('');
 
                 if (files.length === 0) {
@@ -56,20 +92,51 @@ export class DeadCodeFinder {
                     return;
                 }
 
-                
-                progress.report({ increment: 20, message: 'Analyzing files for unused code...' });
-                const allIssues: DeadCodeIssue[] = [];
-                
-                const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                if (!workspaceFolder) {
-                    throw new Error('No workspace folder found');
+                if (analyzedFiles.length === 0) {
+                    this.lastAnalysisResults = [];
+                    this.lastAnalysisTime = new Date();
+                    this.lastBaselineComparison = undefined;
+                    this.log('✅ No changed source files to analyze.');
+                    vscode.window.showInformationMessage('No changed source files to analyze.');
+                    return;
                 }
 
-                const rootPath = workspaceFolder.uri.fsPath;
-                const totalFiles = files.length;
+                progress.report({ increment: 10, message: 'Building import/export graph...' });
+                const graph = await ReferenceGraph.build(files);
+                this.analyzer.setReferenceGraph(graph);
+                this.log(`🕸️  Reference graph: ${graph.getModuleCount()} modules linked`);
+
+                const entryPoints = await new EntryPointResolver().resolve(files, graph);
+                const entryPointSummary = [...entryPoints.counts].map(([kind, count]) => `${kind}: ${count}`).join(', ');
+                this.log(`🚪 Entry points: ${entryPointSummary || 'none found, treating files nobody imports as roots'}\n`);
+
+                const coverageSources = await this.analyzer.loadRuntimeCoverage([...new Set(files.map(file => file.rootPath))]);
+                if (coverageSources.length > 0) {
+                    const runtimeStats = this.analyzer.getRuntimeStats();
+                    this.log(`🏃 Runtime coverage: ${runtimeStats.executedFunctions.size} executed function(s), ${runtimeStats.executedLines.size} executed line(s)`);
+                    coverageSources.forEach(source => this.log(`   from ${vscode.workspace.asRelativePath(source)}`));
+                    if (!files.some(file => this.analyzer.hasRuntimeCoverage(file.filePath))) {
+                        this.log('⚠️  Coverage matched no analyzed files, so it is ignored. For compiled code keep the source maps next to the output, or use c8/Istanbul output');
+                    }
+                    this.log('');
+                }
+
+                if (files.some(file => CssUsageIndex.isStylesheet(file.filePath))) {
+                    progress.report({ increment: 0, message: 'Indexing CSS class and id references...' });
+                    this.analyzer.setCssUsageIndex(await CssUsageIndex.build(files));
+                }
+
+                if (token.isCancellationRequested) {
+                    return;
+                }
+
+                progress.report({ increment: 10, message: 'Analyzing files for unused code...' });
+                const allIssues: DeadCodeIssue[] = [];
+                
+                const totalFiles = analyzedFiles.length;
                 let processedFiles = 0;
 
-                for (const file of files) {
+                for (const file of analyzedFiles) {
                     if (token.isCancellationRequested) {
                         return;
                     }
@@ -82,7 +149,7 @@ export class DeadCodeFinder {
                     });
 
                     try {
-                        const issues = await this.analyzer.analyzeFile(file.filePath, rootPath);
+                        const issues = await this.analyzer.analyzeFile(file.filePath, file.rootPath);
                         allIssues.push(...issues);
                         
                         if (issues.length > 0) {
@@ -93,9 +160,27 @@ export class DeadCodeFinder {
                     }
                 }
 
-                    
+
+                const analyzedPaths = new Set(analyzedFiles.map(file => file.filePath));
+                const graphIssues = this.analyzer.computeReachability(graph, entryPoints).filter(issue => analyzedPaths.has(issue.filePath));
+                allIssues.push(...graphIssues);
+                if (graphIssues.length > 0) {
+                    this.log(`🕸️  Reachability: ${graphIssues.length} unused export(s) or unreachable file(s) found`);
+                }
+
+                if (coverageSources.length > 0) {
+                    const staticCount = allIssues.length;
+                    allIssues.splice(0, allIssues.length, ...this.analyzer.applyRuntimeCoverage(allIssues));
+                    const neverRan = allIssues.filter(issue => issue.runtimeHits === 0).length;
+                    const ran = allIssues.filter(issue => issue.runtimeHits).length;
+                    this.log(`🏃 Coverage: ${neverRan} finding(s) confirmed never executed, ${ran} downgraded and ${staticCount - allIssues.length} dropped because they ran`);
+                }
+
                 progress.report({ increment: 80, message: 'Generating report...' });
                 this.lastAnalysisResults = allIssues;
+                this.lastAnalysisTime = new Date();
+                this.lastBaselineComparison = this.compareWithBaseline(analyzedFiles, allIssues);
+                const reportedIssues = this.lastBaselineComparison?.newIssues || allIssues;
                 
                 const session = performanceMonitor.endAnalysisSession(sessionId);
                 if (session) {
@@ -108,15 +193,15 @@ export class DeadCodeFinder {
                     }
                 }
                 
-                await this.generateReport(allIssues);
+                await this.generateReport(reportedIssues, this.lastBaselineComparison);
                 
                 progress.report({ increment: 100, message: 'Complete!' });
                 
-                if (allIssues.length === 0) {
-                    vscode.window.showInformationMessage('No obviously unused code found ✅');
+                if (reportedIssues.length === 0) {
+                    vscode.window.showInformationMessage(this.lastBaselineComparison ? 'No new dead code since the baseline ✅' : 'No obviously unused code found ✅');
                 } else {
                     const choice = await vscode.window.showInformationMessage(
-                        `Found ${allIssues.length} potential dead code issue(s)`,
+                        `Found ${reportedIssues.length} potential ${this.lastBaselineComparison ? 'new ' : ''}dead code issue(s)`,
                         'View Report',
                         'Learn More'
                     );
@@ -135,11 +220,58 @@ export class DeadCodeFinder {
         }
     }
 
-    private async generateReport(issues: DeadCodeIssue[]): Promise<void> {
+    /** Findings in folders without a baseline all count as new. */
+    private compareWithBaseline(files: ProjectFile[], issues: DeadCodeIssue[]): DeadCodeBaselineComparison | undefined {
+        const rootByFile = new Map(files.map(file => [file.filePath, file.rootPath]));
+        let comparison: DeadCodeBaselineComparison | undefined;
+        const newIssues: DeadCodeIssue[] = [];
+
+        for (const rootPath of new Set(rootByFile.values())) {
+            const rootIssues = issues.filter(issue => rootByFile.get(issue.filePath) === rootPath);
+            const baseline = FindingsBaseline.load(rootPath);
+            if (!baseline) {
+                newIssues.push(...rootIssues);
+                continue;
+            }
+
+            const findings = rootIssues.map(issue => FindingsBaseline.createFindings(rootPath, { filePath: issue.filePath, deadCodeIssues: [issue] })[0]);
+            const analyzedFiles = new Set(files.filter(file => file.rootPath === rootPath).map(file => this.toFolderPath(rootPath, file.filePath)));
+            const result = baseline.compare(findings, analyzedFiles, ['dead-code']);
+            const isNew = new Set(result.newFindings);
+            newIssues.push(...rootIssues.filter((issue, index) => isNew.has(findings[index])));
+            comparison = {
+                recordedAt: comparison && comparison.recordedAt < baseline.recordedAt ? comparison.recordedAt : baseline.recordedAt,
+                newIssues,
+                resolved: [...comparison?.resolved || [], ...result.resolved]
+            };
+        }
+        return comparison;
+    }
+
+    private toFolderPath(rootPath: string, filePath: string): string {
+        return path.relative(rootPath, filePath).split(path.sep).join('/');
+    }
+
+    private async generateReport(issues: DeadCodeIssue[], baseline?: DeadCodeBaselineComparison): Promise<void> {
         this.log('\n' + '='.repeat(80));
         this.log('📊 DEAD CODE ANALYSIS REPORT');
         this.log('='.repeat(80));
 
+        if (baseline) {
+            this.log(`\n🆕 BASELINE: comparing with the baseline recorded ${baseline.recordedAt.toLocaleString()}`);
+            this.log(`   New findings: ${issues.length} (only these are listed below)`);
+            this.log(`   Resolved since baseline: ${baseline.resolved.length}`);
+            baseline.resolved.slice(0, 20).forEach(finding => this.log(`   ✅ ${finding.file}:${finding.line} - ${finding.description}`));
+            if (baseline.resolved.length > 20) {
+                this.log(`   ... and ${baseline.resolved.length - 20} more`);
+            }
+        }
+
+        if (issues.length === 0 && baseline) {
+            this.log('\n✅ No new dead code since the baseline!');
+            return;
+        }
+
         if (issues.length === 0) {
             this.log('\n✅ No obviously unused code found!');
             this.log('\nThis doesn\'t guarantee your codebase has zero dead code, but the most');
@@ -154,6 +286,9 @@ export class DeadCodeFinder {
         this.log(`   Unused Functions: ${summary.unusedFunctions}`);
         this.log(`   Unused Variables: ${summary.unusedVariables}`);
         this.log(`   Unused Components: ${summary.unusedComponents}`);
+        this.log(`   Unused Exports: ${summary.unusedExports}`);
+        this.log(`   Unreferenced Files: ${summary.unreferencedFiles}`);
+        this.log(`   Unused CSS Selectors: ${summary.unusedSelectors}`);
         this.log(`   Files Affected: ${summary.affectedFiles.size}`);
 
         const highConfidence = issues.filter(i => i.confidence === 'high').length;
@@ -165,6 +300,11 @@ export class DeadCodeFinder {
         this.log(`   Medium Confidence: ${mediumConfidence} (review carefully)`);
         this.log(`   Low Confidence: ${lowConfidence} (might be false positives)`);
 
+        const testOnly = issues.filter(i => i.category === 'test-only').length;
+        if (testOnly > 0) {
+            this.log(`\n🧪 TEST-ONLY: ${testOnly} item(s) are only reachable from test files`);
+        }
+
         const issuesByFile = this.groupIssuesByFile(issues);
 
         this.log(`\n🔍 DETAILED FINDINGS:`);
@@ -172,9 +312,10 @@ export class DeadCodeFinder {
             this.log(`\n📄 ${filePath} (${fileIssues.length} issue(s)):`);
             
             fileIssues.forEach((issue, index) => {
-                const icon = this.getIssueIcon(issue.type);
-                const confidenceIcon = this.getConfidenceIcon(issue.confidence);
-                this.log(`   ${index + 1}. ${icon} ${confidenceIcon} Line ${issue.line} - ${issue.description}`);
+                const icon = DeadCodeFinder.getIssueIcon(issue.type);
+                const confidenceIcon = DeadCodeFinder.getConfidenceIcon(issue.confidence);
+                const testOnlyTag = issue.category === 'test-only' ? ' [test-only]' : '';
+                this.log(`   ${index + 1}. ${icon} ${confidenceIcon} Line ${issue.line} - ${issue.description}${testOnlyTag}`);
             });
         }
 
@@ -206,12 +347,33 @@ export class DeadCodeFinder {
             this.log(`   • Verify they're not referenced in JSX files not analyzed`);
         }
 
+        if (summary.unusedExports > 0) {
+            this.log(`\n🎯 UNUSED EXPORTS (${summary.unusedExports}):`);
+            this.log(`   • No file in the workspace imports these exports`);
+            this.log(`   • Drop the export keyword, or the declaration if nothing uses it locally`);
+            this.log(`   • Keep exports that form a published package's public API`);
+        }
+
+        if (summary.unreferencedFiles > 0) {
+            this.log(`\n🎯 UNREFERENCED FILES (${summary.unreferencedFiles}):`);
+            this.log(`   • No other file imports these modules`);
+            this.log(`   • Check they aren't entry points loaded by a bundler, script or framework`);
+            this.log(`   • Orphaned files that import nothing either are the safest to delete`);
+        }
+
+        if (summary.unusedSelectors > 0) {
+            this.log(`\n🎯 UNUSED CSS SELECTORS (${summary.unusedSelectors}):`);
+            this.log(`   • No script, template or markup file mentions these classes or ids`);
+            this.log(`   • Class names assembled at runtime from variables can't be detected`);
+            this.log(`   • Check for HTML rendered by a backend or a CMS before deleting`);
+        }
+
         this.log(`\n⚠️  IMPORTANT NOTES:`);
         this.log(`   • This analysis uses static code analysis and may have false positives`);
         this.log(`   • Always review suggestions carefully before making changes`);
         this.log(`   • Consider running tests after removing any code`);
         this.log(`   • Some code might be used dynamically or in ways not easily detected`);
-        this.log(`   • For runtime analysis, consider using browser dev tools or coverage reports`);
+        this.log(`   • Run your tests with coverage (coverage-final.json, lcov.info or NODE_V8_COVERAGE) to confirm findings at runtime`);
         
         this.log(`\n🚀 NEXT STEPS:`);
         this.log(`   1. Start with high-confidence unused imports (safest to remove)`);
@@ -226,6 +388,9 @@ export class DeadCodeFinder {
             unusedFunctions: 0,
             unusedVariables: 0,
             unusedComponents: 0,
+            unusedExports: 0,
+            unreferencedFiles: 0,
+            unusedSelectors: 0,
             affectedFiles: new Set<string>()
         };
 
@@ -245,6 +410,16 @@ export class DeadCodeFinder {
                 case 'unused-component':
                     summary.unusedComponents++;
                     break;
+                case 'unused-export':
+                    summary.unusedExports++;
+                    break;
+                case 'unused-module':
+                case 'orphan-file':
+                    summary.unreferencedFiles++;
+                    break;
+                case 'unused-selector':
+                    summary.unusedSelectors++;
+                    break;
             }
         });
 
@@ -264,18 +439,22 @@ export class DeadCodeFinder {
         return new Map([...grouped.entries()].sort(([a], [b]) => a.localeCompare(b)));
     }
 
-    private getIssueIcon(type: DeadCodeIssue['type']): string {
+    static getIssueIcon(type: DeadCodeIssue['type']): string {
         switch (type) {
             case 'unused-import': return '📦';
             case 'unused-function': return '🔧';
             case 'unused-variable': return '📝';
             case 'unused-component': return '⚛️';
             case 'unused-route': return '🛣️';
+            case 'unused-export': return '📤';
+            case 'unused-module': return '🧩';
+            case 'orphan-file': return '🏝️';
+            case 'unused-selector': return '🎨';
             default: return '❓';
         }
     }
 
-    private getConfidenceIcon(confidence: 'high' | 'medium' | 'low'): string {
+    static getConfidenceIcon(confidence: 'high' | 'medium' | 'low'): string {
         switch (confidence) {
             case 'high': return '🎯';
             case 'medium': return '⚠️';
@@ -290,6 +469,8 @@ Dead Code Analysis Help
 
 🎯 What this tool does:
 • Finds potentially unused imports, functions, variables, and components
+• Follows imports across files to find unused exports and orphaned files
+• Checks CSS classes and ids against your scripts and markup
 • Provides confidence levels for each finding
 • Helps you clean up your codebase
 
@@ -305,8 +486,8 @@ Dead Code Analysis Help
 • Consider using ESLint for ongoing monitoring
 
 💡 For runtime analysis:
-• Use browser dev tools' Coverage tab
-• Run your app and see what code actually executes
+• Run your tests with coverage: coverage/coverage-final.json, coverage/lcov.info and NODE_V8_COVERAGE dumps are picked up automatically
+• Code that never ran becomes high confidence, functions that ran are dropped
 • Consider webpack-bundle-analyzer for bundle analysis
         `;
 
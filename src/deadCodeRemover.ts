@@ -111,6 +111,25 @@ export class DeadCodeRemover {
         return result;
     }
 
+    static canRemove(issue: DeadCodeIssue): boolean {
+        return !!issue.removal;
+    }
+
+    /**
+     * Removes one finding from an open document as a WorkspaceEdit, so it goes
+     * through the editor's undo stack instead of rewriting the file on disk.
+     */
+    async createRemovalEdit(document: vscode.TextDocument, issue: DeadCodeIssue): Promise<vscode.WorkspaceEdit | undefined> {
+        const removal = this.locateRemoval(document.getText(), issue);
+        if ('reason' in removal) {
+            return undefined;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.delete(document.uri, new vscode.Range(document.positionAt(removal.start), document.positionAt(removal.end)));
+        return edit;
+    }
+
     private async processFile(filePath: string, issues: DeadCodeIssue[], options: RemovalOptions): Promise<{
         removedCount: number;
         modified: boolean;
@@ -124,39 +143,29 @@ export class DeadCodeRemover {
 
         try {
             const originalContent = await fs.promises.readFile(filePath, 'utf8');
-            let modifiedContent = originalContent;
 
             if (options.createBackup && !options.dryRun) {
                 await this.createBackup(filePath, originalContent);
             }
 
-            const sortedIssues = issues.sort((a, b) => b.line - a.line);
-
             this.log(`\n📄 Processing ${vscode.workspace.asRelativePath(filePath)}:`);
 
-            for (const issue of sortedIssues) {
-                try {
-                    const removalResult = await this.removeIssue(modifiedContent, issue, options);
-                    
-                    if (removalResult.success) {
-                        modifiedContent = removalResult.content;
-                        fileResult.removedCount++;
-                        fileResult.modified = true;
-                        
-                        this.log(`  ✅ ${issue.type}: ${issue.name} (line ${issue.line}) ${options.dryRun ? '[DRY RUN]' : ''}`);
-                    } else {
-                        this.log(`  ⚠️  Failed to remove ${issue.type}: ${issue.name} - ${removalResult.reason}`);
-                        fileResult.errors.push(`${issue.name}: ${removalResult.reason}`);
-                    }
-                } catch (error: any) {
-                    const errorMsg = `Failed to remove ${issue.name}: ${error.message}`;
-                    fileResult.errors.push(errorMsg);
-                    this.log(`  ❌ ${errorMsg}`);
+            const removals: { start: number; end: number }[] = [];
+            for (const issue of [...issues].sort((a, b) => a.line - b.line)) {
+                const removal = this.locateRemoval(originalContent, issue);
+                if ('reason' in removal) {
+                    this.log(`  ⚠️  Failed to remove ${issue.type}: ${issue.name} - ${removal.reason}`);
+                    fileResult.errors.push(`${issue.name}: ${removal.reason}`);
+                    continue;
                 }
+                removals.push(removal);
+                fileResult.removedCount++;
+                fileResult.modified = true;
+                this.log(`  ✅ ${issue.type}: ${issue.name} (line ${issue.line}) ${options.dryRun ? '[DRY RUN]' : ''}`);
             }
 
             if (fileResult.modified && !options.dryRun) {
-                await fs.promises.writeFile(filePath, modifiedContent, 'utf8');
+                await fs.promises.writeFile(filePath, this.applyRemovals(originalContent, removals), 'utf8');
                 this.log(`  💾 File saved with ${fileResult.removedCount} removals`);
             } else if (options.dryRun && fileResult.removedCount > 0) {
                 this.log(`  📝 [DRY RUN] Would remove ${fileResult.removedCount} items`);
@@ -169,120 +178,41 @@ export class DeadCodeRemover {
         return fileResult;
     }
 
-    private async removeIssue(content: string, issue: DeadCodeIssue, options: RemovalOptions): Promise<{
-        success: boolean;
-        content: string;
-        reason?: string;
-    }> {
-        const lines = content.split('\n');
-        
-        try {
-            switch (issue.type) {
-                case 'unused-import':
-                    return this.removeUnusedImport(lines, issue);
-                case 'unused-variable':
-                    return this.removeUnusedVariable(lines, issue);
-                case 'unused-function':
-                    return this.removeUnusedFunction(lines, issue);
-                case 'unused-component':
-                    return this.removeUnusedComponent(lines, issue);
-                default:
-                    return {
-                        success: false,
-                        content,
-                        reason: `Unsupported issue type: ${issue.type}`
-                    };
-            }
-        } catch (error: any) {
-            return {
-                success: false,
-                content,
-                reason: error.message
-            };
-        }
-    }
-
-    private removeUnusedImport(lines: string[], issue: DeadCodeIssue): { success: boolean; content: string; reason?: string } {
-        const lineIndex = issue.line - 1;
-        
-        if (lineIndex < 0 || lineIndex >= lines.length) {
-            return { success: false, content: lines.join('\n'), reason: 'Invalid line number' };
-        }
-
-        const line = lines[lineIndex];
-        
-        if (!line.trim().startsWith('import')) {
-            return { success: false, content: lines.join('\n'), reason: 'Line is not an import statement' };
-        }
-
-        lines.splice(lineIndex, 1);
-        
-        return { success: true, content: lines.join('\n') };
-    }
-
-    private removeUnusedVariable(lines: string[], issue: DeadCodeIssue): { success: boolean; content: string; reason?: string } {
-        const lineIndex = issue.line - 1;
-        
-        if (lineIndex < 0 || lineIndex >= lines.length) {
-            return { success: false, content: lines.join('\n'), reason: 'Invalid line number' };
+    /** Offsets of the text the analyzer marked for removal, checked against the current content. */
+    private locateRemoval(content: string, issue: DeadCodeIssue): { start: number; end: number } | { reason: string } {
+        const removal = issue.removal;
+        if (!removal) {
+            return { reason: `${issue.type} can't be removed automatically, please remove it by hand` };
         }
 
-        const line = lines[lineIndex];
-        
-        if (line.includes(`const ${issue.name}`) || line.includes(`let ${issue.name}`) || line.includes(`var ${issue.name}`)) {
-            if (line.trim().endsWith(';') || line.trim().endsWith(',')) {
-                lines.splice(lineIndex, 1);
-                return { success: true, content: lines.join('\n') };
-            }
-        }
-
-        return { success: false, content: lines.join('\n'), reason: 'Could not safely remove variable' };
-    }
-
-    private removeUnusedFunction(lines: string[], issue: DeadCodeIssue): { success: boolean; content: string; reason?: string } {
-        const lineIndex = issue.line - 1;
-        
-        if (lineIndex < 0 || lineIndex >= lines.length) {
-            return { success: false, content: lines.join('\n'), reason: 'Invalid line number' };
+        const lineOffsets = [0];
+        for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+            lineOffsets.push(index + 1);
         }
-
-        const functionEnd = this.findFunctionEnd(lines, lineIndex);
-        
-        if (functionEnd === -1) {
-            return { success: false, content: lines.join('\n'), reason: 'Could not determine function boundaries' };
+        const toOffset = (line: number, column: number) => line >= 1 && line <= lineOffsets.length ? lineOffsets[line - 1] + column - 1 : -1;
+        const start = toOffset(removal.line, removal.column);
+        const end = toOffset(removal.endLine, removal.endColumn);
+        const nameStart = toOffset(issue.line, issue.column);
+
+        // An edit since the analysis moves the code, and removing by stale offsets would hit something else
+        if (start < 0 || end > content.length || nameStart < start || nameStart >= end || !content.substring(nameStart, end).includes(issue.name)) {
+            return { reason: 'The file changed since the analysis, run Find Dead Code again' };
         }
-
-        lines.splice(lineIndex, functionEnd - lineIndex + 1);
-        
-        return { success: true, content: lines.join('\n') };
+        return { start, end };
     }
 
-    private removeUnusedComponent(lines: string[], issue: DeadCodeIssue): { success: boolean; content: string; reason?: string } {
-        return this.removeUnusedFunction(lines, issue);
-    }
-
-    private findFunctionEnd(lines: string[], startIndex: number): number {
-        let braceCount = 0;
-        let foundOpenBrace = false;
-        
-        for (let i = startIndex; i < lines.length; i++) {
-            const line = lines[i];
-            
-            for (const char of line) {
-                if (char === '{') {
-                    braceCount++;
-                    foundOpenBrace = true;
-                } else if (char === '}') {
-                    braceCount--;
-                    
-                    if (foundOpenBrace && braceCount === 0) {
-                        return i;
-                    }
-                }
+    /** Overlapping removals are merged, e.g. two neighbouring import specifiers each taking the comma between them. */
+    private applyRemovals(content: string, removals: { start: number; end: number }[]): string {
+        const merged: { start: number; end: number }[] = [];
+        for (const removal of [...removals].sort((a, b) => a.start - b.start)) {
+            const last = merged[merged.length - 1];
+            if (last && removal.start < last.end) {
+                last.end = Math.max(last.end, removal.end);
+            } else {
+                merged.push({ ...removal });
             }
         }
-        
-        return -1;
+        return merged.reduceRight((result, removal) => result.substring(0, removal.start) + result.substring(removal.end), content);
     }
 
     private async createBackup(filePath: string, content: string): Promise<void> {
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { CodeFile, CodeSection, SearchIndex, SearchIndexStats } from './types';
+import { CodeCollector } from './codeCollector';
+import { tokenizeCode } from './codeTokenizer';
+
+export interface EmbeddingBackend {
+	name: string;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ScoredSection extends CodeSection {
+	score: number;
+}
+
+interface IndexedChunk {
+	hash: string;
+	startLine: number;
+	endLine: number;
+	content: string;
+	vector: number[];
+}
+
+interface IndexedFile {
+	hash: string;
+	chunks: IndexedChunk[];
+}
+
+interface PersistedIndex {
+	version: number;
+	backend: string;
+	updatedAt: string;
+	files: { [path: string]: IndexedFile };
+}
+
+const INDEX_VERSION = 2;
+
+export class HashingEmbeddingBackend implements EmbeddingBackend {
+	readonly name: string;
+
+	constructor(private dimensions: number = 512) {
+		this.name = `hashing-${dimensions}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map(text => this.embedText(text));
+	}
+
+	private embedText(text: string): number[] {
+		const vector = new Array<number>(this.dimensions).fill(0);
+		const counts = new Map<string, number>();
+		for (const token of tokenizeCode(text, { removeStopWords: true })) {
+			counts.set(token, (counts.get(token) || 0) + 1);
+		}
+
+		counts.forEach((count, token) => {
+			const weight = 1 + Math.log(count);
+			this.addFeature(vector, token, weight);
+			// Character trigrams let "auth" land near "authentication"
+			if (token.length > 3) {
+				for (let i = 0; i <= token.length - 3; i++) {
+					this.addFeature(vector, `#${token.substring(i, i + 3)}`, weight * 0.3);
+				}
+			}
+		});
+
+		return normalize(vector);
+	}
+
+	private addFeature(vector: number[], feature: string, weight: number): void {
+		const hash = fnv1a(feature);
+		const index = hash % this.dimensions;
+		const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+		vector[index] += sign * weight;
+	}
+}
+
+export class OllamaEmbeddingBackend implements EmbeddingBackend {
+	readonly name: string;
+	private baseUrl: string;
+
+	constructor(baseUrl: string, private model: string) {
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+		this.name = `ollama:${model}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		try {
+			const response = await axios.post(
+				`${this.baseUrl}/api/embed`,
+				{ model: this.model, input: texts },
+				{ headers: { 'Content-Type': 'application/json' }, timeout: 120000 }
+			);
+			const embeddings = response.data?.embeddings;
+			if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+				throw new Error('Invalid response format from Ollama embeddings API');
+			}
+			return embeddings.map((vector: number[]) => normalize(vector));
+		} catch (error: any) {
+			if (error.code === 'ECONNREFUSED') {
+				throw new Error(`Cannot connect to Ollama at ${this.baseUrl} for embeddings.`);
+			}
+			throw new Error(`Ollama embeddings error: ${error.response?.data?.error || error.message}`);
+		}
+	}
+}
+
+export class OpenAICompatibleEmbeddingBackend implements EmbeddingBackend {
+	readonly name: string;
+	private endpoint: string;
+
+	constructor(baseUrl: string, private model: string) {
+		const trimmed = baseUrl.replace(/\/+$/, '');
+		this.endpoint = trimmed.endsWith('/embeddings') ? trimmed : `${trimmed}/embeddings`;
+		this.name = `openai:${model}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		try {
+			const response = await axios.post(
+				this.endpoint,
+				{ model: this.model, input: texts },
+				{ headers: { 'Content-Type': 'application/json' }, timeout: 120000 }
+			);
+			const data = response.data?.data;
+			if (!Array.isArray(data) || data.length !== texts.length) {
+				throw new Error('Invalid response format from embeddings endpoint');
+			}
+			return data
+				.sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+				.map((item: any) => normalize(item.embedding));
+		} catch (error: any) {
+			if (error.code === 'ECONNREFUSED') {
+				throw new Error(`Cannot connect to ${this.endpoint} for embeddings.`);
+			}
+			throw new Error(`Embeddings error: ${error.response?.data?.error?.message || error.message}`);
+		}
+	}
+}
+
+export function createEmbeddingBackend(config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('whatTheCode')): EmbeddingBackend {
+	const backend = config.get<string>('embeddings.backend', 'hashing');
+	const model = config.get<string>('embeddings.model', 'nomic-embed-text');
+	switch (backend) {
+		case 'ollama':
+			return new OllamaEmbeddingBackend(config.get<string>('embeddings.baseUrl', '') || config.get<string>('ollamaBaseUrl', 'http://localhost:11434'), model);
+		case 'openai':
+			return new OpenAICompatibleEmbeddingBackend(config.get<string>('embeddings.baseUrl', '') || 'http://localhost:8080/v1', model);
+		default:
+			return new HashingEmbeddingBackend();
+	}
+}
+
+export class EmbeddingIndex implements SearchIndex {
+	readonly name = 'embeddings';
+	private index: PersistedIndex;
+	private indexPath: string;
+	private codeCollector: CodeCollector;
+	private readonly batchSize = 16;
+
+	constructor(rootPath: string, private backend: EmbeddingBackend) {
+		this.indexPath = path.join(rootPath, '.what-the-code-index', 'embeddings.json');
+		this.codeCollector = new CodeCollector();
+		this.index = this.load();
+	}
+
+	getBackendName(): string {
+		return this.backend.name;
+	}
+
+	setBackend(backend: EmbeddingBackend): void {
+		if (backend.name !== this.backend.name) {
+			this.backend = backend;
+			this.index = this.emptyIndex();
+		}
+	}
+
+	async update(files: CodeFile[], token?: vscode.CancellationToken): Promise<{ indexed: number; removed: number }> {
+		let indexed = 0;
+		const seen = new Set<string>();
+
+		for (const file of files) {
+			if (token?.isCancellationRequested) {
+				break;
+			}
+			seen.add(file.path);
+			if (await this.indexFile(file)) {
+				indexed++;
+			}
+		}
+
+		let removed = 0;
+		if (!token?.isCancellationRequested) {
+			for (const filePath of Object.keys(this.index.files)) {
+				if (!seen.has(filePath)) {
+					delete this.index.files[filePath];
+					removed++;
+				}
+			}
+		}
+
+		if (indexed > 0 || removed > 0) {
+			this.save();
+		}
+		return { indexed, removed };
+	}
+
+	async indexFile(file: CodeFile): Promise<boolean> {
+		const hash = hashText(file.content);
+		const previous = this.index.files[file.path];
+		if (previous?.hash === hash) {
+			return false;
+		}
+
+		// Only chunks whose text changed need a new embedding
+		const knownVectors = new Map<string, number[]>();
+		previous?.chunks.forEach(chunk => knownVectors.set(chunk.hash, chunk.vector));
+
+		const sections = this.codeCollector.chunkFile(file).map(section => ({
+			...section,
+			hash: hashText(`${section.file}\n${section.content}`)
+		}));
+		const missing = sections.filter(section => !knownVectors.has(section.hash));
+		for (let i = 0; i < missing.length; i += this.batchSize) {
+			const batch = missing.slice(i, i + this.batchSize);
+			const vectors = await this.backend.embed(batch.map(section => `${section.file}\n${section.content}`));
+			batch.forEach((section, j) => {
+				knownVectors.set(section.hash, vectors[j].map(value => Math.round(value * 10000) / 10000));
+			});
+		}
+
+		this.index.files[file.path] = {
+			hash,
+			chunks: sections.map(section => ({
+				hash: section.hash,
+				startLine: section.startLine,
+				endLine: section.endLine,
+				content: section.content,
+				vector: knownVectors.get(section.hash)!
+			}))
+		};
+		return true;
+	}
+
+	removeFile(filePath: string): boolean {
+		if (!this.index.files[filePath]) {
+			return false;
+		}
+		delete this.index.files[filePath];
+		return true;
+	}
+
+	getIndexedFiles(): string[] {
+		return Object.keys(this.index.files);
+	}
+
+	async search(query: string, topK: number = 12, include?: (filePath: string) => boolean): Promise<ScoredSection[]> {
+		const [queryVector] = await this.backend.embed([query]);
+		const scored: ScoredSection[] = [];
+
+		for (const [filePath, indexedFile] of Object.entries(this.index.files)) {
+			if (include && !include(filePath)) {
+				continue;
+			}
+			for (const chunk of indexedFile.chunks) {
+				scored.push({
+					file: filePath,
+					startLine: chunk.startLine,
+					endLine: chunk.endLine,
+					content: chunk.content,
+					score: dot(queryVector, chunk.vector)
+				});
+			}
+		}
+
+		return scored
+			.filter(section => section.score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, topK);
+	}
+
+	getStats(): SearchIndexStats {
+		const files = Object.values(this.index.files);
+		return {
+			files: files.length,
+			chunks: files.reduce((sum, file) => sum + file.chunks.length, 0),
+			updatedAt: files.length > 0 ? new Date(this.index.updatedAt) : null
+		};
+	}
+
+	clear(): void {
+		this.index = this.emptyIndex();
+		this.save();
+	}
+
+	save(): void {
+		try {
+			this.index.updatedAt = new Date().toISOString();
+			fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+			fs.writeFileSync(this.indexPath, JSON.stringify(this.index));
+		} catch (error) {
+			console.error('Error saving embedding index:', error);
+		}
+	}
+
+	private load(): PersistedIndex {
+		try {
+			if (fs.existsSync(this.indexPath)) {
+				const persisted = JSON.parse(fs.readFileSync(this.indexPath, 'utf8')) as PersistedIndex;
+				// Vectors from another backend live in a different space and can't be compared
+				if (persisted.version === INDEX_VERSION && persisted.backend === this.backend.name) {
+					return persisted;
+				}
+			}
+		} catch (error) {
+			console.error('Error loading embedding index:', error);
+		}
+		return this.emptyIndex();
+	}
+
+	private emptyIndex(): PersistedIndex {
+		return {
+			version: INDEX_VERSION,
+			backend: this.backend.name,
+			updatedAt: new Date().toISOString(),
+			files: {}
+		};
+	}
+}
+
+function hashText(text: string): string {
+	return crypto.createHash('sha1').update(text).digest('hex');
+}
+
+function normalize(vector: number[]): number[] {
+	const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+	const length = Math.min(a.length, b.length);
+	let sum = 0;
+	for (let i = 0; i < length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
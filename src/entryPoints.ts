@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from './fileDiscovery';
+import { ProjectFile } from './getProjectFiles';
+import { ReferenceGraph } from './referenceGraph';
+
+export const ENTRY_POINT_CONFIG_FILE = 'whatthecode.config.json';
+
+export interface EntryPointConfig {
+    packageJson: boolean;
+    vscodeContributes: boolean;
+    nextjs: boolean;
+    tests: string[];
+    include: string[];
+}
+
+export type EntryPointKind = 'package.json' | 'VS Code commands' | 'Next.js routes' | 'custom globs' | 'tests';
+
+export interface EntryPoints {
+    // Code that runs in production starts here
+    production: Set<string>;
+    // Test files: whatever only they reach is 'test-only'
+    tests: Set<string>;
+    counts: Map<EntryPointKind, number>;
+}
+
+const DEFAULT_TEST_GLOBS = ['**/*.{test,spec}.{js,jsx,ts,tsx,mjs,cjs}', '**/__tests__/**', '**/__mocks__/**', '**/test/**', '**/tests/**'];
+const DEFAULT_INCLUDE_GLOBS = ['**/*.config.{js,cjs,mjs,ts,mts,cts}', '**/*.d.ts', '**/*.stories.{js,jsx,ts,tsx}'];
+const NEXT_APP_FILES = /^(page|layout|template|loading|error|global-error|not-found|default|route|opengraph-image|twitter-image|icon|apple-icon|sitemap|robots|manifest)\.[cm]?[jt]sx?$/;
+const NEXT_ROOT_FILES = /^(src\/)?(middleware|instrumentation)\.[cm]?[jt]s$/;
+
+/**
+ * Works out what is intentionally public: package.json targets, modules that
+ * register contributed VS Code commands, Next.js routes, tests and custom globs.
+ * Settings under whatTheCode.entryPoints can be overridden per folder with a
+ * whatthecode.config.json file ({ "entryPoints": { ... } }).
+ */
+export class EntryPointResolver {
+    async resolve(files: ProjectFile[], graph: ReferenceGraph): Promise<EntryPoints> {
+        const entryPoints: EntryPoints = { production: new Set(), tests: new Set(), counts: new Map() };
+        const add = (kind: EntryPointKind, filePath: string | undefined) => {
+            if (!filePath) {
+                return;
+            }
+            const target = kind === 'tests' ? entryPoints.tests : entryPoints.production;
+            if (!target.has(filePath)) {
+                target.add(filePath);
+                entryPoints.counts.set(kind, (entryPoints.counts.get(kind) || 0) + 1);
+            }
+        };
+
+        const filesByRoot = new Map<string, ProjectFile[]>();
+        for (const file of files) {
+            filesByRoot.set(file.rootPath, [...filesByRoot.get(file.rootPath) || [], file]);
+        }
+
+        for (const [rootPath, rootFiles] of filesByRoot) {
+            const config = this.loadConfig(rootPath);
+            const manifest = this.readJson(path.join(rootPath, 'package.json'));
+            const modules = rootFiles.filter(file => graph.getModule(file.filePath));
+            const relative = (file: ProjectFile) => path.relative(rootPath, file.filePath).split(path.sep).join('/');
+
+            if (config.packageJson && manifest) {
+                this.getPackageTargets(manifest).forEach(target => add('package.json', graph.findSourceFile(target, rootPath)));
+            }
+            if (config.vscodeContributes && manifest) {
+                for (const filePath of await this.findCommandRegistrations(manifest, modules)) {
+                    add('VS Code commands', filePath);
+                }
+            }
+            if (config.nextjs && this.usesNext(rootPath, manifest)) {
+                modules.filter(file => this.isNextRoute(relative(file))).forEach(file => add('Next.js routes', file.filePath));
+            }
+
+            const includes = config.include.map(pattern => globToRegExp(pattern));
+            const tests = config.tests.map(pattern => globToRegExp(pattern));
+            for (const file of modules) {
+                const relativePath = relative(file);
+                if (tests.some(regex => regex.test(relativePath))) {
+                    add('tests', file.filePath);
+                } else if (includes.some(regex => regex.test(relativePath))) {
+                    add('custom globs', file.filePath);
+                }
+            }
+        }
+
+        return entryPoints;
+    }
+
+    loadConfig(rootPath: string): EntryPointConfig {
+        const settings = vscode.workspace.getConfiguration('whatTheCode.entryPoints', vscode.Uri.file(rootPath));
+        const config: EntryPointConfig = {
+            packageJson: settings.get<boolean>('packageJson', true),
+            vscodeContributes: settings.get<boolean>('vscodeContributes', true),
+            nextjs: settings.get<boolean>('nextjs', true),
+            tests: settings.get<string[]>('tests', DEFAULT_TEST_GLOBS),
+            include: settings.get<string[]>('include', DEFAULT_INCLUDE_GLOBS)
+        };
+
+        const fromFile = this.readJson(path.join(rootPath, ENTRY_POINT_CONFIG_FILE))?.entryPoints;
+        if (!fromFile || typeof fromFile !== 'object') {
+            return config;
+        }
+        for (const key of ['packageJson', 'vscodeContributes', 'nextjs'] as const) {
+            if (typeof fromFile[key] === 'boolean') {
+                config[key] = fromFile[key];
+            }
+        }
+        for (const key of ['tests', 'include'] as const) {
+            if (Array.isArray(fromFile[key])) {
+                config[key] = fromFile[key].filter((pattern: unknown) => typeof pattern === 'string');
+            }
+        }
+        return config;
+    }
+
+    private getPackageTargets(manifest: any): string[] {
+        const targets: string[] = [];
+        const collect = (value: unknown): void => {
+            if (typeof value === 'string') {
+                targets.push(value);
+            } else if (value && typeof value === 'object') {
+                Object.values(value).forEach(collect);
+            }
+        };
+        collect([manifest.main, manifest.module, manifest.browser, manifest.bin, manifest.exports]);
+        return targets.filter(target => !target.includes('*'));
+    }
+
+    /** Modules that call registerCommand for a command the extension contributes. */
+    private async findCommandRegistrations(manifest: any, files: ProjectFile[]): Promise<string[]> {
+        const commands: string[] = (manifest.contributes?.commands || [])
+            .map((command: any) => command?.command)
+            .filter((command: unknown): command is string => typeof command === 'string');
+        if (commands.length === 0) {
+            return [];
+        }
+
+        const registrations: string[] = [];
+        for (const file of files) {
+            try {
+                const content = await fs.promises.readFile(file.filePath, 'utf8');
+                if (/register(?:TextEditor)?Command\s*\(/.test(content)
+                    && commands.some(command => content.includes(`'${command}'`) || content.includes(`"${command}"`) || content.includes(`\`${command}\``))) {
+                    registrations.push(file.filePath);
+                }
+            } catch (error) {
+                console.warn(`Error reading ${file.filePath} for command registrations:`, error);
+            }
+        }
+        return registrations;
+    }
+
+    private usesNext(rootPath: string, manifest: any): boolean {
+        if (manifest?.dependencies?.next || manifest?.devDependencies?.next) {
+            return true;
+        }
+        return ['next.config.js', 'next.config.mjs', 'next.config.ts'].some(name => fs.existsSync(path.join(rootPath, name)));
+    }
+
+    private isNextRoute(relativePath: string): boolean {
+        if (/^(src\/)?pages\//.test(relativePath)) {
+            return true;
+        }
+        if (/^(src\/)?app\//.test(relativePath)) {
+            return NEXT_APP_FILES.test(path.posix.basename(relativePath));
+        }
+        return NEXT_ROOT_FILES.test(relativePath);
+    }
+
+    private readJson(filePath: string): any {
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            if (fs.existsSync(filePath)) {
+                console.warn(`Could not parse ${filePath}:`, error);
+            }
+            return undefined;
+        }
+    }
+}
@@ -1,26 +1,46 @@
 import * as vscode from 'vscode';
 import { CodeCollector } from './codeCollector';
-import { GeminiProvider, PromptBuilder } from './aiProviders';
-import { SearchResult, AIProvider } from './types';
+import { PromptBuilder } from './aiProviders';
+import { FallbackProvider, ProviderRegistry } from './providerRegistry';
+import { CredentialStore } from './credentialStore';
+import { EmbeddingIndex, createEmbeddingBackend } from './embeddingIndex';
+import { BM25Index } from './bm25Index';
+import { ContextPacker, PackedContext } from './contextPacker';
+import { IndexWatcher } from './indexWatcher';
+import { SearchResult, AIProvider, CodeFile, SearchIndex, ChatTurn, SearchHistoryEntry, JsonSchema, QueryOptions } from './types';
+import { CHAT_RESPONSE_SCHEMA, SEARCH_RESPONSE_SCHEMA, extractJson, parseSearchResponse, validateAgainstSchema } from './responseSchema';
 import { SearchResultsProvider } from './searchResultsProvider';
+import { ResultsDisplay } from './resultsDisplay';
+import { SnippetLocator } from './snippetLocator';
+import { StreamingResultParser } from './streamingResultParser';
+import { ChatHistory } from './chatHistory';
+import { ChatPanel } from './chatPanel';
+import { SearchHistoryItem, SearchHistoryProvider, SEARCH_HISTORY_SCHEME } from './searchHistoryProvider';
 import { SnapshotProvider } from './snapshotProvider';
 import { DeadCodeFinder } from './deadCodeFinder';
 import { DeadCodeRemover, RemovalOptions } from './deadCodeRemover';
+import { DeadCodeCodeActionProvider, DeadCodeDiagnostics } from './deadCodeDiagnostics';
+import { BASELINE_FILE, BaselineFinding, FindingsBaseline } from './findingsBaseline';
 import { MainActionsProvider } from './mainActionsProvider';
-import { DeadCodeActionsProvider } from './deadCodeActionsProvider';
+import { DeadCodeActionsProvider, DeadCodeIssueItem } from './deadCodeActionsProvider';
 import { runAnalyzerTests } from './testAnalyzer';
 import { CodeQualityAnalyzer } from './codeQualityAnalyzer';
 import { HTMLReportGenerator } from './htmlReportGenerator';
 import { ReportsProvider } from './reportsProvider';
-import { DeadCodeAnalyzer } from './analyzeDeadCode';
+import { DeadCodeAnalyzer, DeadCodeIssue } from './analyzeDeadCode';
+import { ReferenceGraph } from './referenceGraph';
+import { CssUsageIndex } from './cssUsageIndex';
+import { EntryPointResolver } from './entryPoints';
 import { ProjectFileCollector } from './getProjectFiles';
+import { WorkspaceScope } from './workspaceScope';
+import { ChangedFilesScope } from './changedFilesScope';
 
 async function displayResults(query: string, results: SearchResult[], resultsProvider: SearchResultsProvider) {
 	resultsProvider.updateResults(query, results);
 	const items = results.map((result, index) => ({
-		label: `$(file-code) ${vscode.workspace.asRelativePath(result.file)} [Line ${result.line}]`,
+		label: `$(${result.verified === false ? 'warning' : 'file-code'}) ${vscode.workspace.asRelativePath(result.file)} [${ResultsDisplay.describeLines(result)}]`,
 		description: `${index + 1}. ${result.explanation}`,
-		detail: `📍 Line ${result.line} | ${result.content.trim()}`,
+		detail: `📍 ${ResultsDisplay.describeLines(result)} | ${result.content.trim()}`,
 		result: result
 	}));
 	const selected = await vscode.window.showQuickPick(items, {
@@ -38,27 +58,23 @@ try {
 		const { file, line } = result;
 		let fileUri: vscode.Uri;
 		if (typeof file === 'string') {
-			if (file.includes(':') || file.startsWith('/')) {
-				fileUri = vscode.Uri.file(file);
-			} else {
-				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-				if (workspaceFolder) {
-					fileUri = vscode.Uri.joinPath(workspaceFolder.uri, file);
-				} else {
-					throw new Error('No workspace folder found');
-				}
+			if (!vscode.workspace.workspaceFolders?.length && !file.includes(':') && !file.startsWith('/')) {
+				throw new Error('No workspace folder found');
 			}
+			fileUri = vscode.Uri.file(WorkspaceScope.resolvePath(file));
 		} else {
 			fileUri = file as vscode.Uri;
 		}
 		console.log(`Opening file: ${fileUri.fsPath} at line ${line}`);
 		const document = await vscode.workspace.openTextDocument(fileUri);
 		const editor = await vscode.window.showTextDocument(document);
-		const range = new vscode.Range(line - 1, 0, line - 1, 0);
+		const hasColumns = result.column !== undefined && result.endColumn !== undefined;
+		const range = new vscode.Range(line - 1, result.column || 0, (result.endLine || line) - 1, result.endColumn || 0);
+		editor.selection = new vscode.Selection(range.start, range.start);
 		editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
 		const decorationType = vscode.window.createTextEditorDecorationType({
 			backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
-			isWholeLine: true
+			isWholeLine: !hasColumns
 		});
 		editor.setDecorations(decorationType, [range]);
 		setTimeout(() => decorationType.dispose(), 3000);
@@ -72,42 +88,82 @@ class CodeSearchProvider {
 	   private config: vscode.WorkspaceConfiguration;
 	   private outputChannel: vscode.OutputChannel;
 	   private codeCollector: CodeCollector;
+	   private providerRegistry: ProviderRegistry;
+	   private embeddingIndex: EmbeddingIndex | undefined;
+	   private bm25Index: BM25Index | undefined;
+	   private lastContext: string | undefined;
+	   private lastModel: string | undefined;
+	   private scope: WorkspaceScope;
 
-	   constructor() {
+	   constructor(credentialStore: CredentialStore, scope: WorkspaceScope) {
+			   this.scope = scope;
 			   this.config = vscode.workspace.getConfiguration('whatTheCode');
 			   this.outputChannel = vscode.window.createOutputChannel('What-The-Code');
 			   this.codeCollector = new CodeCollector();
+			   this.providerRegistry = ProviderRegistry.createDefault(credentialStore);
 	   }
 
-	   async searchCode(query: string, progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<SearchResult[]> {
+	   async searchCode(query: string, progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken, onResult?: (result: SearchResult) => void): Promise<SearchResult[]> {
 			   try {
 					   this.outputChannel.appendLine(`🔍 Searching for: "${query}"`);
 					   this.outputChannel.show(true);
+					   this.lastContext = undefined;
+					   this.lastModel = undefined;
 					   progress.report({ increment: 10, message: 'Collecting code files...' });
 					   const allFiles = await this.codeCollector.collectCodeFiles();
 					   this.outputChannel.appendLine(`📁 Found ${allFiles.length} code files`);
 					   if (token.isCancellationRequested) { return []; }
-					   if (allFiles.length === 0) {
+					   if (!this.scope.isAllFolders()) {
+							   this.outputChannel.appendLine(`📂 Limited to ${this.scope.getLabel()} (${allFiles.filter(file => this.scope.contains(file.path)).length} files)`);
+					   }
+					   if (!allFiles.some(file => this.scope.contains(file.path))) {
 							   vscode.window.showWarningMessage('No code files found in the workspace.');
 							   return [];
 					   }
-					   progress.report({ increment: 20, message: 'Prioritizing files...' });
-					   const relevantFiles = this.codeCollector.prioritizeFiles(allFiles, query);
-					   this.outputChannel.appendLine(`🎯 Selected ${relevantFiles.length} most relevant files`);
+					   if (vscode.workspace.getConfiguration('whatTheCode').get<string>('searchMode', 'ai') === 'offline') {
+							   return this.searchOffline(query, allFiles, progress);
+					   }
+					   let aiProvider: AIProvider;
+					   try {
+							   aiProvider = await this.providerRegistry.createWithFallbacks((failed, error, next) => {
+									   this.outputChannel.appendLine(`⚠️ ${failed.name} failed (${error.message}), falling back to ${next.name}`);
+									   progress.report({ message: `${failed.name} unavailable, trying ${next.name}...` });
+							   });
+					   } catch (error: any) {
+							   return this.fallBackToOffline(error, query, allFiles, progress);
+					   }
+					   const models = aiProvider instanceof FallbackProvider
+							   ? aiProvider.getProviders().map(provider => provider.model)
+							   : [aiProvider.model];
+					   const packed = await this.buildContext(query, allFiles, ContextPacker.resolveTokenBudget(models), progress, token);
 					   if (token.isCancellationRequested) { return []; }
-					   progress.report({ increment: 20, message: 'Building prompt...' });
-					   const context = PromptBuilder.buildContextSection(relevantFiles);
-					   const prompt = PromptBuilder.buildCodeSearchPrompt(query, context);
+					   this.logPackedContext(packed);
+					   this.lastContext = packed.text;
+					   const prompt = PromptBuilder.buildCodeSearchPrompt(query, packed.text);
 					   this.outputChannel.appendLine(`📝 Prepared prompt (${prompt.length} characters)`);
 					   if (token.isCancellationRequested) { return []; }
 					   progress.report({ increment: 30, message: 'Querying AI...' });
-					   const aiProvider = this.getAIProvider();
 					   this.outputChannel.appendLine(`🤖 Using ${aiProvider.name} provider`);
-					   const response = await aiProvider.query(prompt);
-					   this.outputChannel.appendLine(`✅ Received AI response (${response.length} characters)`);
+					   const queryOptions = this.getQueryOptions(SEARCH_RESPONSE_SCHEMA);
+					   let response: string;
+					   try {
+							   response = aiProvider.queryStream && onResult
+									   ? await this.queryStreaming(aiProvider, prompt, token, onResult, queryOptions)
+									   : await aiProvider.query(prompt, queryOptions);
+					   } catch (error: any) {
+							   if (token.isCancellationRequested) { return []; }
+							   return this.fallBackToOffline(error, query, allFiles, progress);
+					   }
+					   const answeredBy = aiProvider instanceof FallbackProvider
+							   ? aiProvider.getLastResponder() || aiProvider.name
+							   : aiProvider.name;
+					   this.lastModel = aiProvider instanceof FallbackProvider
+							   ? aiProvider.getProviders().find(provider => provider.name === answeredBy)?.model
+							   : aiProvider.model;
+					   this.outputChannel.appendLine(`✅ Received AI response from ${answeredBy} (${response.length} characters)`);
 					   if (token.isCancellationRequested) { return []; }
 					   progress.report({ increment: 10, message: 'Parsing results...' });
-					   const results = this.parseResults(response);
+					   const results = await this.parseResults(response, answeredBy, aiProvider, token);
 					   this.outputChannel.appendLine(`🎯 Parsed ${results.length} relevant code sections`);
 					   return results;
 			   } catch (error: any) {
@@ -117,57 +173,298 @@ class CodeSearchProvider {
 			   }
 	   }
 
-	   private getAIProvider(): AIProvider {
-			   let apiKey = this.config.get<string>('geminiApiKey', '');
-			   const model = this.config.get<string>('geminiModel', 'gemini-1.5-flash');
-			   return new GeminiProvider(apiKey, model);
+	   getLastContext(): string | undefined {
+			   return this.lastContext;
+	   }
+
+	   getLastModel(): string | undefined {
+			   return this.lastModel;
 	   }
 
-	   private parseResults(response: string): SearchResult[] {
+	   async chat(question: string, history: ChatTurn[], progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<ChatTurn> {
+			   this.outputChannel.appendLine(`💬 Follow-up: "${question}"`);
+			   const allFiles = await this.codeCollector.collectCodeFiles();
+			   if (!allFiles.some(file => this.scope.contains(file.path))) {
+					   throw new Error('No code files found in the workspace.');
+			   }
+			   const aiProvider = await this.providerRegistry.createWithFallbacks((failed, error, next) => {
+					   this.outputChannel.appendLine(`⚠️ ${failed.name} failed (${error.message}), falling back to ${next.name}`);
+			   });
+			   const models = aiProvider instanceof FallbackProvider
+					   ? aiProvider.getProviders().map(provider => provider.model)
+					   : [aiProvider.model];
+			   const budget = ContextPacker.resolveTokenBudget(models);
+
+			   // The previous answer's code stays in view unless it would crowd out fresh retrieval
+			   const lastAnswer = [...history].reverse().find(turn => turn.role === 'assistant');
+			   let previousContext = lastAnswer?.context || '';
+			   if (ContextPacker.estimateTokens(previousContext) > budget / 2) {
+					   previousContext = '';
+			   }
+			   const freshBudget = budget - ContextPacker.estimateTokens(previousContext);
+
+			   // Follow-ups are usually too vague to retrieve on their own ("and the tests for it?")
+			   const lastQuestion = [...history].reverse().find(turn => turn.role === 'user');
+			   const retrievalQuery = lastQuestion ? `${lastQuestion.text} ${question}` : question;
+			   const packed = await this.buildContext(retrievalQuery, allFiles, freshBudget, progress, token);
+			   this.logPackedContext(packed);
+			   if (token.isCancellationRequested) {
+					   throw new vscode.CancellationError();
+			   }
+
+			   const recentHistory = history.slice(-6).map(turn => ({
+					   ...turn,
+					   results: turn.results?.map(result => ({ ...result, file: vscode.workspace.asRelativePath(result.file) }))
+			   }));
+			   const prompt = PromptBuilder.buildFollowUpPrompt(question, recentHistory, previousContext, packed.text);
+			   progress.report({ increment: 30, message: `Asking ${aiProvider.name}...` });
+			   const response = await aiProvider.query(prompt, this.getQueryOptions(CHAT_RESPONSE_SCHEMA));
+			   const answeredBy = aiProvider instanceof FallbackProvider
+					   ? aiProvider.getLastResponder() || aiProvider.name
+					   : aiProvider.name;
+
+			   let answer = response.trim();
+			   let results: SearchResult[] = [];
 			   try {
-					   this.outputChannel.appendLine(`Raw AI response: ${response.substring(0, 200)}...`);
-					   let jsonMatch = response.match(/\{[\s\S]*\}/);
-					   if (!jsonMatch) {
-							   const codeBlockMatch = response.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-							   if (codeBlockMatch) {
-									   jsonMatch = [codeBlockMatch[1]];
-							   }
+					   const parsed = extractJson(response);
+					   const problems = validateAgainstSchema(parsed, CHAT_RESPONSE_SCHEMA);
+					   if (problems.length > 0) {
+							   this.outputChannel.appendLine(`⚠️ Follow-up answer doesn't match the expected format: ${problems.slice(0, 3).join('; ')}`);
 					   }
-					   if (!jsonMatch) {
-							   throw new Error('No JSON found in response');
-					   }
-					   const parsed = JSON.parse(jsonMatch[0]);
-					   if (!parsed.results || !Array.isArray(parsed.results)) {
-							   throw new Error('Invalid response format - missing results array');
-					   }
-					   const validResults = parsed.results
-							   .filter((result: any) => result.file && result.content)
-							   .map((result: any) => {
-									   const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-									   let absolutePath = result.file;
-									   if (workspaceFolder && !result.file.includes(':')) {
-											   absolutePath = vscode.Uri.joinPath(workspaceFolder.uri, result.file).fsPath;
+					   answer = typeof parsed.answer === 'string' ? parsed.answer : '';
+					   results = this.verifyLocations((Array.isArray(parsed.results) ? parsed.results : [])
+							   .map((result: any) => this.toSearchResult(result, answeredBy))
+							   .filter((result: SearchResult | undefined): result is SearchResult => result !== undefined));
+			   } catch (error) {
+					   // Plain-text answers are still useful in a conversation
+					   this.outputChannel.appendLine(`Follow-up answer was not JSON, showing it as text`);
+			   }
+			   this.outputChannel.appendLine(`✅ ${answeredBy} answered with ${results.length} result(s)`);
+
+			   return {
+					   role: 'assistant',
+					   text: answer || `Found ${results.length} relevant code section(s).`,
+					   results,
+					   context: [previousContext, packed.text].filter(part => part.length > 0).join('\n'),
+					   provider: answeredBy,
+					   timestamp: Date.now()
+			   };
+	   }
+
+	   private getQueryOptions(schema: JsonSchema): QueryOptions {
+			   return vscode.workspace.getConfiguration('whatTheCode').get<boolean>('structuredOutput', true)
+					   ? { responseSchema: schema }
+					   : {};
+	   }
+
+	   private async queryStreaming(aiProvider: AIProvider, prompt: string, token: vscode.CancellationToken, onResult: (result: SearchResult) => void, options: QueryOptions): Promise<string> {
+			   const parser = new StreamingResultParser();
+			   const locator = new SnippetLocator();
+			   const dropUnverified = vscode.workspace.getConfiguration('whatTheCode').get<string>('unverifiedResults', 'flag') === 'drop';
+			   const controller = new AbortController();
+			   const cancellation = token.onCancellationRequested(() => controller.abort());
+			   try {
+					   return await aiProvider.queryStream!(prompt, chunk => {
+							   for (const raw of parser.feed(chunk)) {
+									   const answeredBy = aiProvider instanceof FallbackProvider
+											   ? aiProvider.getLastResponder() || aiProvider.name
+											   : aiProvider.name;
+									   const result = this.toSearchResult(raw, answeredBy);
+									   if (!result) {
+											   continue;
 									   }
-									   return {
-											   file: absolutePath,
-											   line: Math.max(1, result.line || 1),
-											   content: result.content,
-											   explanation: result.explanation || 'No explanation provided',
-											   confidence: Math.min(1, Math.max(0, result.confidence || 0.8))
-									   };
-							   });
-					   if (validResults.length === 0) {
-							   throw new Error('No valid results found in response');
+									   const resolved = locator.resolve(result);
+									   if (resolved.verified || !dropUnverified) {
+											   onResult(resolved);
+									   }
+							   }
+					   }, controller.signal, options);
+			   } finally {
+					   cancellation.dispose();
+			   }
+	   }
+
+	   private toSearchResult(result: any, providerName: string): SearchResult | undefined {
+			   if (!result?.file || !result.content) {
+					   return undefined;
+			   }
+			   return {
+					   file: WorkspaceScope.resolvePath(result.file),
+					   line: Math.max(1, result.line || 1),
+					   content: result.content,
+					   explanation: result.explanation || 'No explanation provided',
+					   confidence: Math.min(1, Math.max(0, result.confidence || 0.8)),
+					   provider: providerName
+			   };
+	   }
+
+	   private fallBackToOffline(error: Error, query: string, allFiles: CodeFile[], progress: vscode.Progress<{ message?: string; increment?: number }>): SearchResult[] {
+			   this.outputChannel.appendLine(`⚠️ AI search failed (${error.message}), falling back to offline keyword search`);
+			   vscode.window.showWarningMessage(`AI search failed: ${error.message}. Showing offline keyword results instead.`);
+			   return this.searchOffline(query, allFiles, progress);
+	   }
+
+	   private logPackedContext(packed: PackedContext): void {
+			   const fileCount = new Set(packed.included.map(section => section.file)).size;
+			   this.outputChannel.appendLine(`📦 Packed ${packed.included.length} sections from ${fileCount} files (~${packed.tokens}/${packed.budget} tokens)`);
+			   if (packed.omitted.length > 0) {
+					   this.outputChannel.appendLine(`✂️ Not sent to the AI (over the token budget): ${packed.omitted.length}`);
+					   packed.omitted.forEach(omitted => this.outputChannel.appendLine(`   - ${ContextPacker.describeOmitted(omitted)}`));
+			   }
+	   }
+
+	   private searchOffline(query: string, allFiles: CodeFile[], progress: vscode.Progress<{ message?: string; increment?: number }>): SearchResult[] {
+			   const index = this.getBM25Index();
+			   if (!index) {
+					   return [];
+			   }
+			   progress.report({ increment: 30, message: 'Ranking code sections offline...' });
+			   const { indexed } = index.update(allFiles);
+			   const stats = index.getStats();
+			   this.outputChannel.appendLine(`📚 Offline index: ${stats.chunks} sections from ${stats.files} files (${indexed} re-indexed)`);
+			   const results = index.search(query, 10, filePath => this.scope.contains(filePath));
+			   this.outputChannel.appendLine(`🎯 Found ${results.length} keyword matches with ${BM25Index.PROVIDER_NAME}`);
+			   return results;
+	   }
+
+	   private async buildContext(query: string, allFiles: CodeFile[], tokenBudget: number, progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<PackedContext> {
+			   const packer = new ContextPacker(tokenBudget);
+			   const config = vscode.workspace.getConfiguration('whatTheCode');
+			   const index = config.get<boolean>('embeddings.enabled', true) ? this.getEmbeddingIndex() : undefined;
+			   if (index) {
+					   try {
+							   progress.report({ increment: 20, message: 'Updating search index...' });
+							   const { indexed, removed } = await index.update(allFiles, token);
+							   this.outputChannel.appendLine(`🧠 Index (${index.getBackendName()}): ${indexed} file(s) re-embedded, ${removed} removed`);
+							   progress.report({ increment: 20, message: 'Retrieving relevant code...' });
+							   const sections = await index.search(query, config.get<number>('embeddings.topK', 12), filePath => this.scope.contains(filePath));
+							   const fileCount = new Set(sections.map(section => section.file)).size;
+							   this.outputChannel.appendLine(`🎯 Retrieved ${sections.length} chunks from ${fileCount} files`);
+							   if (sections.length > 0) {
+									   return packer.packSections(sections);
+							   }
+					   } catch (error: any) {
+							   this.outputChannel.appendLine(`⚠️ Embedding index unavailable (${error.message}), using keyword file ranking`);
 					   }
-					   return validResults;
-			   } catch (error) {
-					   this.outputChannel.appendLine(`JSON parsing failed: ${error}`);
+			   }
+
+			   progress.report({ increment: 20, message: 'Prioritizing files...' });
+			   const relevantFiles = this.codeCollector.prioritizeFiles(allFiles.filter(file => this.scope.contains(file.path)), query, 20);
+			   this.outputChannel.appendLine(`🎯 Selected ${relevantFiles.length} most relevant files`);
+			   progress.report({ increment: 20, message: 'Building prompt...' });
+			   return packer.packFiles(relevantFiles, query);
+	   }
+
+	   getEmbeddingIndex(): EmbeddingIndex | undefined {
+			   const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			   if (!workspaceFolder) {
+					   return undefined;
+			   }
+			   const backend = createEmbeddingBackend();
+			   if (!this.embeddingIndex) {
+					   this.embeddingIndex = new EmbeddingIndex(workspaceFolder.uri.fsPath, backend);
+			   } else {
+					   this.embeddingIndex.setBackend(backend);
+			   }
+			   return this.embeddingIndex;
+	   }
+
+	   getBM25Index(): BM25Index | undefined {
+			   if (WorkspaceScope.getAllFolders().length === 0) {
+					   return undefined;
+			   }
+			   if (!this.bm25Index) {
+					   this.bm25Index = new BM25Index(WorkspaceScope.resolvePath);
+			   }
+			   return this.bm25Index;
+	   }
+
+	   getSearchIndexes(): SearchIndex[] {
+			   const config = vscode.workspace.getConfiguration('whatTheCode');
+			   const indexes: SearchIndex[] = [];
+			   // Only keep the keyword index fresh once a search has built it
+			   if (this.bm25Index) {
+					   indexes.push(this.bm25Index);
+			   }
+			   const embeddingIndex = config.get<boolean>('embeddings.enabled', true) ? this.getEmbeddingIndex() : undefined;
+			   if (embeddingIndex) {
+					   indexes.push(embeddingIndex);
+			   }
+			   return indexes;
+	   }
+
+	   async rebuildIndex(): Promise<void> {
+			   const index = this.getEmbeddingIndex();
+			   if (!index) {
+					   vscode.window.showWarningMessage('No workspace folder found. Open a project to build the search index.');
+					   return;
+			   }
+			   await vscode.window.withProgress({
+					   location: vscode.ProgressLocation.Notification,
+					   title: 'Rebuilding search index...',
+					   cancellable: true
+			   }, async (progress, token) => {
+					   progress.report({ increment: 10, message: 'Collecting code files...' });
+					   const files = await this.codeCollector.collectCodeFiles();
+					   index.clear();
+					   progress.report({ increment: 20, message: `Embedding ${files.length} files with ${index.getBackendName()}...` });
+					   await index.update(files, token);
+					   const stats = index.getStats();
+					   vscode.window.showInformationMessage(`🧠 Search index rebuilt: ${stats.chunks} chunks from ${stats.files} files.`);
+			   });
+	   }
+
+	   async getAIProvider(): Promise<AIProvider> {
+			   return this.providerRegistry.createConfigured();
+	   }
+
+	   private async parseResults(response: string, providerName: string, aiProvider: AIProvider, token: vscode.CancellationToken): Promise<SearchResult[]> {
+			   this.outputChannel.appendLine(`Raw AI response: ${response.substring(0, 200)}...`);
+			   let parsed = parseSearchResponse(response);
+			   if (!parsed.value && !token.isCancellationRequested) {
+					   // One round-trip with the validation errors usually fixes a truncated or chatty answer
+					   this.outputChannel.appendLine(`⚠️ Response didn't match the expected format (${parsed.errors.slice(0, 3).join('; ')}), asking for a corrected answer`);
+					   try {
+							   response = await aiProvider.query(PromptBuilder.buildRepairPrompt(response, parsed.errors), this.getQueryOptions(SEARCH_RESPONSE_SCHEMA));
+							   parsed = parseSearchResponse(response);
+					   } catch (error: any) {
+							   this.outputChannel.appendLine(`❌ Repair request failed: ${error.message}`);
+					   }
+			   }
+			   if (!parsed.value) {
+					   this.outputChannel.appendLine(`JSON parsing failed: ${parsed.errors.join('; ')}`);
 					   this.outputChannel.appendLine(`Full response: ${response}`);
 					   vscode.window.showErrorMessage(
 							   `AI response parsing failed. The AI may not have returned properly formatted JSON. Check the output channel for details.`
 					   );
 					   return [];
 			   }
+			   const validResults = parsed.value.results
+					   .map(result => this.toSearchResult(result, providerName))
+					   .filter((result: SearchResult | undefined): result is SearchResult => result !== undefined);
+			   return this.verifyLocations(validResults);
+	   }
+
+	   private verifyLocations(results: SearchResult[]): SearchResult[] {
+			   const dropUnverified = vscode.workspace.getConfiguration('whatTheCode').get<string>('unverifiedResults', 'flag') === 'drop';
+			   const locator = new SnippetLocator();
+			   const resolved = results.map(result => locator.resolve(result));
+			   const unverified = resolved.filter(result => !result.verified);
+			   resolved.forEach((result, index) => {
+					   if (result.verified && result.line !== results[index].line) {
+							   this.outputChannel.appendLine(`📐 Corrected ${vscode.workspace.asRelativePath(result.file)} line ${results[index].line} → ${result.line}`);
+					   }
+			   });
+			   if (unverified.length > 0) {
+					   this.outputChannel.appendLine(`⚠️ ${unverified.length} result(s) quote code that isn't in the file${dropUnverified ? ' and were dropped' : ''}:`);
+					   unverified.forEach(result => this.outputChannel.appendLine(`   - ${vscode.workspace.asRelativePath(result.file)}:${result.line}`));
+			   }
+			   if (dropUnverified) {
+					   return resolved.filter(result => result.verified);
+			   }
+			   return resolved.map(result => result.verified
+					   ? result
+					   : { ...result, confidence: Math.min(result.confidence ?? 0.8, 0.3) });
 	   }
 
 	   dispose() {
@@ -199,14 +496,21 @@ export function activate(context: vscode.ExtensionContext) {
 			   console.log('First time activation - showing welcome');
 			   showWelcomeMessage(context);
 	   }
+	   const credentialStore = new CredentialStore(context.secrets);
+	   credentialStore.migratePlaintextKeys().then(migrated => {
+			   if (migrated.length > 0) {
+					   vscode.window.showInformationMessage(`🔐 Moved ${migrated.join(' and ')} API key(s) from settings into secure storage.`);
+			   }
+	   }, error => console.error('API key migration failed:', error));
 	   console.log('Creating search provider...');
-	   const searchProvider = new CodeSearchProvider();
+	   const workspaceScope = new WorkspaceScope(context.workspaceState);
+	   const searchProvider = new CodeSearchProvider(credentialStore, workspaceScope);
 	   const resultsProvider = new SearchResultsProvider();
 	   vscode.window.createTreeView('what-the-code-results', {
 			   treeDataProvider: resultsProvider,
 			   showCollapseAll: true
 	   });
-	   const snapshotProvider = new SnapshotProvider(context);
+	   const snapshotProvider = new SnapshotProvider(context, workspaceScope);
 	   vscode.window.createTreeView('what-the-code-snapshots', {
 			   treeDataProvider: snapshotProvider,
 			   showCollapseAll: true
@@ -216,6 +520,97 @@ export function activate(context: vscode.ExtensionContext) {
 			   treeDataProvider: mainActionsProvider,
 			   showCollapseAll: false
 	   });
+	   const searchHistory = new SearchHistoryProvider(context.workspaceState);
+	   vscode.window.createTreeView('what-the-code-history', {
+			   treeDataProvider: searchHistory,
+			   showCollapseAll: true
+	   });
+	   const searchHistoryDocuments = vscode.workspace.registerTextDocumentContentProvider(SEARCH_HISTORY_SCHEME, searchHistory);
+	   const compareWithPreviousRun = async (entry: SearchHistoryEntry) => {
+			   const previous = searchHistory.findPreviousRun(entry);
+			   if (!previous) {
+					   vscode.window.showInformationMessage(`"${entry.query}" has not been searched before, nothing to compare with.`);
+					   return;
+			   }
+			   await vscode.commands.executeCommand(
+					   'vscode.diff',
+					   SearchHistoryProvider.getDiffUri(previous),
+					   SearchHistoryProvider.getDiffUri(entry),
+					   `${entry.query} (${new Date(previous.timestamp).toLocaleString()} ↔ ${new Date(entry.timestamp).toLocaleString()})`
+			   );
+	   };
+	   const showChangesSincePreviousRun = async (entry: SearchHistoryEntry) => {
+			   const previous = searchHistory.findPreviousRun(entry);
+			   if (!previous) {
+					   return;
+			   }
+			   const diff = SearchHistoryProvider.diffResults(previous.results, entry.results);
+			   if (diff.added.length === 0 && diff.removed.length === 0 && diff.moved.length === 0) {
+					   vscode.window.showInformationMessage(`Same ${entry.results.length} result(s) as the previous run of this search.`);
+					   return;
+			   }
+			   const choice = await vscode.window.showInformationMessage(
+					   `Since the previous run: ${diff.added.length} new, ${diff.removed.length} gone, ${diff.moved.length} moved, ${diff.unchanged.length} unchanged.`,
+					   'Show Diff'
+			   );
+			   if (choice === 'Show Diff') {
+					   await compareWithPreviousRun(entry);
+			   }
+	   };
+	   const rerunSearchCommand = vscode.commands.registerCommand('what-the-code.rerunSearch', async (item: SearchHistoryItem) => {
+			   if (item?.entry) {
+					   await vscode.commands.executeCommand('what-the-code.searchCode', item.entry.query);
+			   }
+	   });
+	   const pinSearchCommand = vscode.commands.registerCommand('what-the-code.pinSearch', async (item: SearchHistoryItem) => {
+			   if (item?.entry) {
+					   await searchHistory.setPinned(item.entry.id, true);
+			   }
+	   });
+	   const unpinSearchCommand = vscode.commands.registerCommand('what-the-code.unpinSearch', async (item: SearchHistoryItem) => {
+			   if (item?.entry) {
+					   await searchHistory.setPinned(item.entry.id, false);
+			   }
+	   });
+	   const deleteSearchCommand = vscode.commands.registerCommand('what-the-code.deleteSearch', async (item: SearchHistoryItem) => {
+			   if (item?.entry) {
+					   await searchHistory.deleteEntry(item.entry.id);
+			   }
+	   });
+	   const compareSearchCommand = vscode.commands.registerCommand('what-the-code.compareSearch', async (item: SearchHistoryItem) => {
+			   if (item?.entry) {
+					   await compareWithPreviousRun(item.entry);
+			   }
+	   });
+	   const exportSearchCommand = vscode.commands.registerCommand('what-the-code.exportSearch', async (item: SearchHistoryItem) => {
+			   if (!item?.entry) {
+					   return;
+			   }
+			   const slug = item.entry.query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 40) || 'search';
+			   const target = await vscode.window.showSaveDialog({
+					   defaultUri: workspaceScope.getFolders()[0]
+							   ? vscode.Uri.joinPath(workspaceScope.getFolders()[0].uri, `search-${slug}.md`)
+							   : undefined,
+					   filters: { 'Markdown': ['md'], 'JSON': ['json'] }
+			   });
+			   if (!target) {
+					   return;
+			   }
+			   const content = target.fsPath.endsWith('.json')
+					   ? JSON.stringify(item.entry, null, 2)
+					   : SearchHistoryProvider.toMarkdown(item.entry);
+			   await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+			   vscode.window.showInformationMessage(`📤 Search exported to ${vscode.workspace.asRelativePath(target)}`);
+	   });
+	   const clearSearchHistoryCommand = vscode.commands.registerCommand('what-the-code.clearSearchHistory', async () => {
+			   await searchHistory.clearUnpinned();
+			   vscode.window.showInformationMessage('Search history cleared (pinned searches were kept).');
+	   });
+	   const chatHistory = new ChatHistory(context.workspaceState);
+	   const chatPanel = new ChatPanel(chatHistory, (question, history, progress, token) => searchProvider.chat(question, history, progress, token));
+	   const indexWatcher = new IndexWatcher(() => searchProvider.getSearchIndexes(), new CodeCollector());
+	   indexWatcher.onDidChangeStatus(status => mainActionsProvider.updateIndexStatus(status));
+	   indexWatcher.refreshStatus();
 	   const deadCodeActionsProvider = new DeadCodeActionsProvider();
 	   vscode.window.createTreeView('what-the-code-dead-code', {
 			   treeDataProvider: deadCodeActionsProvider,
@@ -224,19 +619,49 @@ export function activate(context: vscode.ExtensionContext) {
 	   
 	   // Initialize HTML Report Generator
 	   const htmlReportGenerator = new HTMLReportGenerator();
-	   const reportsProvider = new ReportsProvider(htmlReportGenerator.getReportsPath());
+	   const reportsProvider = new ReportsProvider(() => htmlReportGenerator.getAllReportsPaths());
 	   vscode.window.createTreeView('what-the-code-reports', {
 			   treeDataProvider: reportsProvider,
 			   showCollapseAll: false
 	   });
+	   const updateFolderScope = () => mainActionsProvider.updateFolderScope(WorkspaceScope.isMultiRoot() ? workspaceScope.getLabel() : undefined);
+	   updateFolderScope();
+	   workspaceScope.onDidChange(() => {
+			   updateFolderScope();
+			   reportsProvider.refresh();
+	   });
+	   const selectFolderScopeCommand = vscode.commands.registerCommand('what-the-code.selectFolderScope', async () => {
+			   await workspaceScope.select();
+	   });
+	   const changedFilesScope = new ChangedFilesScope(context.workspaceState);
+	   deadCodeActionsProvider.updateChangedFilesScope(changedFilesScope.getLabel());
+	   changedFilesScope.onDidChange(() => deadCodeActionsProvider.updateChangedFilesScope(changedFilesScope.getLabel()));
+	   const selectChangedFilesScopeCommand = vscode.commands.registerCommand('what-the-code.selectChangedFilesScope', async () => {
+			   await changedFilesScope.select(workspaceScope.getFolders());
+	   });
+	   // undefined means every file; null means git failed and the caller should stop
+	   const getChangedFiles = async (folders: readonly vscode.WorkspaceFolder[]): Promise<Set<string> | undefined | null> => {
+			   try {
+					   return await changedFilesScope.getChangedFiles(folders);
+			   } catch (error) {
+					   vscode.window.showErrorMessage(`Could not list changed files (${changedFilesScope.getLabel()}): ${error instanceof Error ? error.message : error}`);
+					   return null;
+			   }
+	   };
 	   
 	   const deadCodeFinder = new DeadCodeFinder();
 	   const deadCodeRemover = new DeadCodeRemover();
-	   const searchCommand = vscode.commands.registerCommand('what-the-code.searchCode', async () => {
+	   const deadCodeDiagnostics = new DeadCodeDiagnostics();
+	   const deadCodeCodeActions = vscode.languages.registerCodeActionsProvider(
+			   { scheme: 'file' },
+			   new DeadCodeCodeActionProvider(deadCodeDiagnostics, deadCodeRemover),
+			   { providedCodeActionKinds: DeadCodeCodeActionProvider.providedCodeActionKinds }
+	   );
+	   const searchCommand = vscode.commands.registerCommand('what-the-code.searchCode', async (presetQuery?: string) => {
 			   console.log('🔍 Search command triggered!');
 			   try {
 					   console.log('Opening search dialog...');
-					   const query = await vscode.window.showInputBox({
+					   const query = typeof presetQuery === 'string' ? presetQuery : await vscode.window.showInputBox({
 							   placeHolder: 'e.g., "Where is user authentication handled?"',
 							   prompt: 'Ask a question about your code',
 							   title: 'What-The-Code: Ask Your Code'
@@ -256,7 +681,21 @@ export function activate(context: vscode.ExtensionContext) {
 							   });
 							   console.log('Starting search with progress...');
 							   progress.report({ increment: 10, message: 'Collecting code files...' });
-							   const results = await searchProvider.searchCode(query.trim(), progress, token);
+							   const showPanel = vscode.workspace.getConfiguration('whatTheCode').get<boolean>('showResultsPanel', true);
+							   let streamed = 0;
+							   const results = await searchProvider.searchCode(query.trim(), progress, token, result => {
+									   if (streamed === 0) {
+											   resultsProvider.beginResults(query.trim());
+											   if (showPanel) {
+													   ResultsDisplay.beginStream(query.trim());
+											   }
+									   }
+									   streamed++;
+									   resultsProvider.addResult(result);
+									   ResultsDisplay.appendResult(result);
+									   progress.report({ message: `${streamed} result(s) so far...` });
+							   });
+							   indexWatcher.refreshStatus();
 							   console.log(`Search completed with ${results.length} results`);
 							   progress.report({ increment: 100, message: 'Complete!' });
 							   if (token.isCancellationRequested) {
@@ -264,6 +703,12 @@ export function activate(context: vscode.ExtensionContext) {
 							   }
 							   if (results.length > 0) {
 									   console.log('Displaying results...');
+									   if (ResultsDisplay.isVisible()) {
+											   await ResultsDisplay.displayResults(query, results);
+									   }
+									   await chatHistory.recordSearch(query.trim(), results, searchProvider.getLastContext());
+									   const entry = await searchHistory.addEntry(query.trim(), results, results[0].provider, searchProvider.getLastModel());
+									   showChangesSincePreviousRun(entry);
 									   await displayResults(query, results, resultsProvider);
 							   } else {
 									   console.log('No results found');
@@ -284,31 +729,93 @@ export function activate(context: vscode.ExtensionContext) {
 			   vscode.window.showWarningMessage("This command is deprecated and will be removed.");
 	   });
 	   const testGeminiCommand = vscode.commands.registerCommand('what-the-code.testGemini', async () => {
-			   const config = vscode.workspace.getConfiguration('whatTheCode');
-			   let apiKey = config.get<string>('geminiApiKey', '');
-			   const model = config.get<string>('geminiModel', 'gemini-1.5-flash');
+			   const testProvider = await searchProvider.getAIProvider();
 			   await vscode.window.withProgress({
 					   location: vscode.ProgressLocation.Notification,
-					   title: 'Testing Gemini connection...',
+					   title: `Testing ${testProvider.name} connection...`,
 					   cancellable: false
 			   }, async (progress) => {
 					   try {
-							   progress.report({ increment: 30, message: 'Connecting to Gemini API...' });
-							   const testProvider = new GeminiProvider(apiKey, model);
-							   const testPrompt = 'Say "Hello from Gemini!" and nothing else.';
+							   progress.report({ increment: 30, message: `Connecting to ${testProvider.name}...` });
+							   const testPrompt = `Say "Hello from ${testProvider.name}!" and nothing else.`;
 							   progress.report({ increment: 60, message: 'Testing API response...' });
 							   const response = await testProvider.query(testPrompt);
 							   progress.report({ increment: 100, message: 'Success!' });
 							   vscode.window.showInformationMessage(
-									   `✅ Gemini connection successful!\n\nModel: ${model}\nResponse: ${response.substring(0, 100)}...`
+									   `✅ ${testProvider.name} connection successful!\n\nResponse: ${response.substring(0, 100)}...`
 							   );
 					   } catch (error: any) {
+							   const hints = testProvider.name === 'Ollama'
+									   ? '1. Ollama is running locally\n2. The base URL is correct\n3. The model has been pulled'
+									   : testProvider.name === 'Gemini'
+											   ? '1. API key is valid\n2. You have internet connection\n3. Gemini API is enabled'
+											   : '1. The base URL points at a /v1/chat/completions server\n2. The model name is correct\n3. API key and headers are valid';
 							   vscode.window.showErrorMessage(
-									   `❌ Gemini connection failed: ${error.message}\n\nMake sure:\n1. API key is valid\n2. You have internet connection\n3. Gemini API is enabled`
+									   `❌ ${testProvider.name} connection failed: ${error.message}\n\nMake sure:\n${hints}`
 							   );
 					   }
 			   });
 	   });
+	   const setApiKeyCommand = vscode.commands.registerCommand('what-the-code.setApiKey', async () => {
+			   const provider = await credentialStore.pickProvider('Select the provider to store an API key for');
+			   if (!provider) {
+					   return;
+			   }
+			   const apiKey = await credentialStore.promptForApiKey(provider);
+			   if (!apiKey) {
+					   return;
+			   }
+			   await credentialStore.setApiKey(provider.id, apiKey);
+			   vscode.window.showInformationMessage(`🔐 ${provider.label} API key saved to secure storage.`);
+	   });
+	   const rotateApiKeyCommand = vscode.commands.registerCommand('what-the-code.rotateApiKey', async () => {
+			   const provider = await credentialStore.pickProvider('Select the provider whose API key you want to rotate');
+			   if (!provider) {
+					   return;
+			   }
+			   const existingKey = await credentialStore.getApiKey(provider.id);
+			   if (!existingKey) {
+					   vscode.window.showWarningMessage(`No ${provider.label} API key is stored yet. Use "Set API Key" first.`);
+					   return;
+			   }
+			   const apiKey = await credentialStore.promptForApiKey(provider, existingKey);
+			   if (!apiKey) {
+					   return;
+			   }
+			   await credentialStore.setApiKey(provider.id, apiKey);
+			   vscode.window.showInformationMessage(`🔄 ${provider.label} API key rotated. Remember to revoke the old key with your provider.`);
+	   });
+	   const clearApiKeyCommand = vscode.commands.registerCommand('what-the-code.clearApiKey', async () => {
+			   const provider = await credentialStore.pickProvider('Select the provider whose API key you want to remove');
+			   if (!provider) {
+					   return;
+			   }
+			   const choice = await vscode.window.showWarningMessage(
+					   `Remove the stored ${provider.label} API key?`,
+					   { modal: true },
+					   'Remove Key'
+			   );
+			   if (choice !== 'Remove Key') {
+					   return;
+			   }
+			   await credentialStore.clearApiKey(provider.id);
+			   vscode.window.showInformationMessage(`🗑️ ${provider.label} API key removed from secure storage.`);
+	   });
+	   const openChatCommand = vscode.commands.registerCommand('what-the-code.openChat', () => {
+			   chatPanel.show();
+	   });
+	   const clearChatCommand = vscode.commands.registerCommand('what-the-code.clearChat', async () => {
+			   await chatHistory.clear();
+			   vscode.window.showInformationMessage('💬 Conversation cleared.');
+	   });
+	   const rebuildIndexCommand = vscode.commands.registerCommand('what-the-code.rebuildIndex', async () => {
+			   try {
+					   await searchProvider.rebuildIndex();
+			   } catch (error: any) {
+					   vscode.window.showErrorMessage(`Failed to rebuild search index: ${error.message}`);
+			   }
+			   indexWatcher.refreshStatus();
+	   });
 	   const openResultCommand = vscode.commands.registerCommand('what-the-code.openResult', async (result: SearchResult) => {
 			   if (result) {
 					   await openSearchResult(result);
@@ -336,13 +843,136 @@ export function activate(context: vscode.ExtensionContext) {
 	   const clearAllSnapshotsCommand = vscode.commands.registerCommand('what-the-code.clearAllSnapshots', async () => {
 			   snapshotProvider.clearAllSnapshots();
 	   });
+	   // The one way findings reach the Dead Code view and the editor, so ignored and baseline findings stay hidden in both
+	   const showDeadCodeResults = () => {
+			   const results = deadCodeFinder.getLastAnalysisResults().filter(issue => !deadCodeDiagnostics.isIgnored(issue));
+			   const newIssues = deadCodeFinder.getBaselineComparison()?.newIssues.filter(issue => !deadCodeDiagnostics.isIgnored(issue));
+			   deadCodeActionsProvider.updateAnalysisResults(results, newIssues, deadCodeFinder.getLastAnalysisTime());
+			   deadCodeDiagnostics.publish(deadCodeActionsProvider.isBaselineOnly() && newIssues ? newIssues : results);
+	   };
 	   const findDeadCodeCommand = vscode.commands.registerCommand('what-the-code.findDeadCode', async () => {
-			   await deadCodeFinder.findDeadCode();
-			   const results = deadCodeFinder.getLastAnalysisResults();
-			   deadCodeActionsProvider.updateAnalysisResults(results.length);
+			   const folders = workspaceScope.getFolders();
+			   const changedFiles = await getChangedFiles(folders);
+			   if (changedFiles === null) {
+					   return;
+			   }
+			   await deadCodeFinder.findDeadCode(folders, changedFiles);
+			   showDeadCodeResults();
+	   });
+	   const toggleDeadCodeBaselineCommand = vscode.commands.registerCommand('what-the-code.toggleDeadCodeBaseline', async () => {
+			   if (!deadCodeFinder.getBaselineComparison() || !deadCodeActionsProvider.hasBaseline()) {
+					   vscode.window.showInformationMessage('No baseline to compare with. Run "Record Baseline", then "Find Dead Code" again later.');
+					   return;
+			   }
+			   const baselineOnly = deadCodeActionsProvider.toggleBaselineOnly();
+			   showDeadCodeResults();
+			   vscode.window.showInformationMessage(baselineOnly ? 'Showing only dead code found since the baseline.' : 'Showing all dead code findings.');
+	   });
+	   const recordBaselineCommand = vscode.commands.registerCommand('what-the-code.recordBaseline', async () => {
+			   const folders = workspaceScope.getFolders();
+			   if (folders.length === 0) {
+					   vscode.window.showWarningMessage('Open a folder to record a baseline.');
+					   return;
+			   }
+			   await deadCodeFinder.findDeadCode(folders);
+			   const deadCodeIssues = deadCodeFinder.getLastAnalysisResults();
+
+			   const recorded = await vscode.window.withProgress({
+					   location: vscode.ProgressLocation.Notification,
+					   title: 'Recording baseline...',
+					   cancellable: true
+			   }, async (progress, token) => {
+					   const files = await new ProjectFileCollector().collectProjectFiles(folders);
+					   const analyzer = new CodeQualityAnalyzer();
+					   const findingsByRoot = new Map<string, BaselineFinding[]>(folders.map(folder => [folder.uri.fsPath, []]));
+					   for (const file of files) {
+							   if (token.isCancellationRequested) {
+									   return undefined;
+							   }
+							   progress.report({ increment: 100 / files.length, message: file.relativePath });
+							   try {
+									   const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(file.filePath))).toString('utf8');
+									   findingsByRoot.get(file.rootPath)?.push(...FindingsBaseline.createFindings(file.rootPath, {
+											   filePath: file.filePath,
+											   deadCodeIssues: deadCodeIssues.filter(issue => issue.filePath === file.filePath),
+											   typeSafetyIssues: analyzer.findTypeSafetyIssues(content, file.filePath),
+											   refactoringRecommendations: analyzer.generateRefactoringRecommendations(content, file.filePath)
+									   }, content));
+							   } catch (error) {
+									   console.error(`Error analyzing file ${file.filePath}:`, error);
+							   }
+					   }
+					   for (const [rootPath, findings] of findingsByRoot) {
+							   await FindingsBaseline.record(rootPath, findings);
+					   }
+					   return [...findingsByRoot.values()].reduce((sum, findings) => sum + findings.length, 0);
+			   });
+			   if (recorded === undefined) {
+					   return;
+			   }
+
+			   deadCodeFinder.markBaselineRecorded();
+			   showDeadCodeResults();
+			   vscode.window.showInformationMessage(`📌 Baseline recorded with ${recorded} finding(s) in ${BASELINE_FILE}. From now on only new findings are reported.`);
+	   });
+	   // Invoked from quick fixes with the issue itself and from the Dead Code view with its tree item
+	   const toDeadCodeIssue = (target?: DeadCodeIssue | DeadCodeIssueItem) => target instanceof DeadCodeIssueItem ? target.issue : target;
+	   const ignoreDeadCodeFindingCommand = vscode.commands.registerCommand('what-the-code.ignoreDeadCodeFinding', async (target?: DeadCodeIssue | DeadCodeIssueItem) => {
+			   const issue = toDeadCodeIssue(target);
+			   if (!issue) {
+					   return;
+			   }
+			   if (await deadCodeDiagnostics.ignore(issue)) {
+					   deadCodeActionsProvider.removeIssue(issue);
+			   }
+	   });
+	   const removeDeadCodeIssueCommand = vscode.commands.registerCommand('what-the-code.removeDeadCodeIssue', async (target?: DeadCodeIssue | DeadCodeIssueItem) => {
+			   const issue = toDeadCodeIssue(target);
+			   if (!issue) {
+					   return;
+			   }
+			   const document = await vscode.workspace.openTextDocument(issue.filePath);
+			   const edit = await deadCodeRemover.createRemovalEdit(document, issue);
+			   if (!edit || !await vscode.workspace.applyEdit(edit)) {
+					   vscode.window.showWarningMessage(`Could not safely remove '${issue.name}'. Please remove it by hand.`);
+					   return;
+			   }
+			   deadCodeActionsProvider.removeIssue(issue);
+			   const position = new vscode.Position(Math.max(0, issue.line - 1), 0);
+			   await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position), preview: true });
+	   });
+	   const viewDeadCodeIssueInReportCommand = vscode.commands.registerCommand('what-the-code.viewDeadCodeIssueInReport', async (target?: DeadCodeIssue | DeadCodeIssueItem) => {
+			   const issue = toDeadCodeIssue(target);
+			   if (!issue) {
+					   return;
+			   }
+			   try {
+					   let reportPath = htmlReportGenerator.findFileReportWithIssue(issue);
+					   if (!reportPath) {
+							   const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(issue.filePath))).toString('utf8');
+							   const analyzer = new CodeQualityAnalyzer();
+							   reportPath = await htmlReportGenerator.generateFileReport(
+									   issue.filePath,
+									   analyzer.analyzeCodeQuality(content, issue.filePath),
+									   analyzer.findTypeSafetyIssues(content, issue.filePath),
+									   analyzer.generateRefactoringRecommendations(content, issue.filePath),
+									   deadCodeFinder.getLastAnalysisResults().filter(other => other.filePath === issue.filePath && !deadCodeDiagnostics.isIgnored(other))
+							   );
+							   reportsProvider.refresh();
+					   }
+					   await htmlReportGenerator.openReport(reportPath, htmlReportGenerator.getDeadCodeAnchor(issue));
+			   } catch (error) {
+					   vscode.window.showErrorMessage(`Failed to generate report: ${error}`);
+			   }
+	   });
+	   const filterDeadCodeByConfidenceCommand = vscode.commands.registerCommand('what-the-code.filterDeadCodeByConfidence', async () => {
+			   await deadCodeActionsProvider.selectConfidenceFilter();
+	   });
+	   const filterDeadCodeByCategoryCommand = vscode.commands.registerCommand('what-the-code.filterDeadCodeByCategory', async () => {
+			   await deadCodeActionsProvider.selectCategoryFilter();
 	   });
 	   const removeDeadCodeSafeCommand = vscode.commands.registerCommand('what-the-code.removeDeadCodeSafe', async () => {
-			   const issues = deadCodeFinder.getLastAnalysisResults();
+			   const issues = deadCodeFinder.getLastAnalysisResults().filter(issue => !deadCodeDiagnostics.isIgnored(issue));
 			   if (issues.length === 0) {
 					   vscode.window.showWarningMessage('No dead code analysis results found. Please run "Find Dead Code" first.');
 					   return;
@@ -371,7 +1001,7 @@ export function activate(context: vscode.ExtensionContext) {
 			   await deadCodeRemover.removeDeadCode(issues, options);
 	   });
 	   const removeDeadCodeInteractiveCommand = vscode.commands.registerCommand('what-the-code.removeDeadCodeInteractive', async () => {
-			   const issues = deadCodeFinder.getLastAnalysisResults();
+			   const issues = deadCodeFinder.getLastAnalysisResults().filter(issue => !deadCodeDiagnostics.isIgnored(issue));
 			   if (issues.length === 0) {
 					   vscode.window.showWarningMessage('No dead code analysis results found. Please run "Find Dead Code" first.');
 					   return;
@@ -394,7 +1024,7 @@ export function activate(context: vscode.ExtensionContext) {
 			   await deadCodeRemover.removeDeadCode(issues, options);
 	   });
 	   const removeDeadCodeDryRunCommand = vscode.commands.registerCommand('what-the-code.removeDeadCodeDryRun', async () => {
-			   const issues = deadCodeFinder.getLastAnalysisResults();
+			   const issues = deadCodeFinder.getLastAnalysisResults().filter(issue => !deadCodeDiagnostics.isIgnored(issue));
 			   if (issues.length === 0) {
 					   vscode.window.showWarningMessage('No dead code analysis results found. Please run "Find Dead Code" first.');
 					   return;
@@ -480,7 +1110,7 @@ export function activate(context: vscode.ExtensionContext) {
                progress.report({ increment: 50, message: 'Checking for dead code...' });
                
                const deadCodeAnalyzer = new DeadCodeAnalyzer();
-               const deadCodeIssues = await deadCodeAnalyzer.analyzeFile(filePath, vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '');
+               const deadCodeIssues = await deadCodeAnalyzer.analyzeFile(filePath, vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath || '');
                
                progress.report({ increment: 75, message: 'Generating HTML report...' });
                
@@ -503,7 +1133,7 @@ export function activate(context: vscode.ExtensionContext) {
                if (choice === 'Open Report') {
                    await htmlReportGenerator.openReport(reportPath);
                } else if (choice === 'Open Reports Folder') {
-                   const uri = vscode.Uri.file(htmlReportGenerator.getReportsPath());
+                   const uri = vscode.Uri.file(htmlReportGenerator.getReportsPath(vscode.workspace.getWorkspaceFolder(document.uri)));
                    await vscode.env.openExternal(uri);
                }
                
@@ -516,11 +1146,15 @@ export function activate(context: vscode.ExtensionContext) {
    });
    
    const generateProjectReportCommand = vscode.commands.registerCommand('what-the-code.generateProjectReport', async () => {
-       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-       if (!workspaceFolder) {
+       const folders = workspaceScope.getFolders();
+       if (folders.length === 0) {
            vscode.window.showWarningMessage('No workspace folder found. Open a project to generate a project report.');
            return;
        }
+       const changedFiles = await getChangedFiles(folders);
+       if (changedFiles === null) {
+           return;
+       }
        
        await vscode.window.withProgress({
            location: vscode.ProgressLocation.Notification,
@@ -531,20 +1165,33 @@ export function activate(context: vscode.ExtensionContext) {
                progress.report({ increment: 10, message: 'Collecting project files...' });
                
                const fileCollector = new ProjectFileCollector();
-               const files = await fileCollector.collectProjectFiles();
+               const files = await fileCollector.collectProjectFiles(folders);
+               const inScope = changedFiles ? files.filter(file => changedFiles.has(file.filePath)) : files;
+               // Applies to changed files too, a long-lived branch can touch as many files as the whole project
+               const maxFiles = vscode.workspace.getConfiguration('whatTheCode').get<number>('reports.maxFilesInProjectReport', 20);
+               const analyzedFiles = maxFiles > 0 ? inScope.slice(0, maxFiles) : inScope;
                
                if (token.isCancellationRequested) return;
+               if (analyzedFiles.length === 0) {
+                   vscode.window.showInformationMessage(changedFiles ? 'No changed source files to report on.' : 'No source files found to analyze.');
+                   return;
+               }
                
                const reports = [];
                const analyzer = new CodeQualityAnalyzer();
                const deadCodeAnalyzer = new DeadCodeAnalyzer();
+               // Built over every file so exports used by unchanged files still count
+               const referenceGraph = await ReferenceGraph.build(files);
+               deadCodeAnalyzer.setReferenceGraph(referenceGraph);
+               deadCodeAnalyzer.setCssUsageIndex(await CssUsageIndex.build(files));
+               await deadCodeAnalyzer.loadRuntimeCoverage([...new Set(files.map(file => file.rootPath))]);
+               const graphIssues = deadCodeAnalyzer.computeReachability(referenceGraph, await new EntryPointResolver().resolve(files, referenceGraph));
                
-               for (let i = 0; i < Math.min(files.length, 20); i++) { // Limit to 20 files for performance
+               for (const file of analyzedFiles) {
                    if (token.isCancellationRequested) return;
                    
-                   const file = files[i];
                    progress.report({ 
-                       increment: (70 / Math.min(files.length, 20)), 
+                       increment: (70 / analyzedFiles.length), 
                        message: `Analyzing ${file.relativePath}...` 
                    });
                    
@@ -555,7 +1202,10 @@ export function activate(context: vscode.ExtensionContext) {
                        const metrics = analyzer.analyzeCodeQuality(textContent, file.filePath);
                        const typeSafetyIssues = analyzer.findTypeSafetyIssues(textContent, file.filePath);
                        const refactoringRecommendations = analyzer.generateRefactoringRecommendations(textContent, file.filePath);
-                       const deadCodeIssues = await deadCodeAnalyzer.analyzeFile(file.filePath, workspaceFolder.uri.fsPath);
+                       const deadCodeIssues = deadCodeAnalyzer.applyRuntimeCoverage([
+                           ...await deadCodeAnalyzer.analyzeFile(file.filePath, file.rootPath),
+                           ...graphIssues.filter(issue => issue.filePath === file.filePath)
+                       ]);
                        
                        reports.push({
                            filePath: file.filePath,
@@ -577,12 +1227,14 @@ export function activate(context: vscode.ExtensionContext) {
                
                progress.report({ increment: 90, message: 'Generating HTML report...' });
                
-               const reportPath = await htmlReportGenerator.generateProjectReport(reports);
+               const reportPath = await htmlReportGenerator.generateProjectReport(reports, folders, changedFiles ? changedFilesScope.getLabel() : undefined);
                
                progress.report({ increment: 100, message: 'Complete!' });
                
                const choice = await vscode.window.showInformationMessage(
-                   `📊 Project report generated successfully! (${reports.length} files analyzed)`,
+                   analyzedFiles.length < inScope.length
+                       ? `📊 Project report generated for the first ${reports.length} of ${inScope.length} files. Raise whatTheCode.reports.maxFilesInProjectReport to include more.`
+                       : `📊 Project report generated successfully! (${reports.length} files analyzed)`,
                    'Open Report',
                    'Open Reports Folder'
                );
@@ -590,7 +1242,7 @@ export function activate(context: vscode.ExtensionContext) {
                if (choice === 'Open Report') {
                    await htmlReportGenerator.openReport(reportPath);
                } else if (choice === 'Open Reports Folder') {
-                   const uri = vscode.Uri.file(htmlReportGenerator.getReportsPath());
+                   const uri = vscode.Uri.file(htmlReportGenerator.getReportsPath(folders[0]));
                    await vscode.env.openExternal(uri);
                }
                
@@ -631,7 +1283,11 @@ export function activate(context: vscode.ExtensionContext) {
    
    const openReportsFolderCommand = vscode.commands.registerCommand('what-the-code.openReportsFolder', async () => {
        try {
-           const uri = vscode.Uri.file(htmlReportGenerator.getReportsPath());
+           const folder = await workspaceScope.pickFolder('Open the reports folder of which workspace folder?');
+           if (!folder && WorkspaceScope.getAllFolders().length > 0) {
+               return;
+           }
+           const uri = vscode.Uri.file(htmlReportGenerator.getReportsPath(folder));
            await vscode.env.openExternal(uri);
        } catch (error) {
            vscode.window.showErrorMessage(`Failed to open reports folder: ${error}`);
@@ -640,7 +1296,11 @@ export function activate(context: vscode.ExtensionContext) {
    
    const openTeamLeaderboardCommand = vscode.commands.registerCommand('what-the-code.openTeamLeaderboard', async () => {
        try {
-           await htmlReportGenerator.openTeamLeaderboard();
+           const folder = await workspaceScope.pickFolder('Open the team leaderboard of which workspace folder?');
+           if (!folder && WorkspaceScope.getAllFolders().length > 0) {
+               return;
+           }
+           await htmlReportGenerator.openTeamLeaderboard(folder);
        } catch (error) {
            vscode.window.showErrorMessage(`Failed to open team leaderboard: ${error}`);
        }
@@ -668,6 +1328,28 @@ export function activate(context: vscode.ExtensionContext) {
 			   testCommand, 
 			   presetCommand, 
 			   testGeminiCommand, 
+			   setApiKeyCommand,
+			   rotateApiKeyCommand,
+			   clearApiKeyCommand,
+			   rebuildIndexCommand,
+			   indexWatcher,
+			   openChatCommand,
+			   clearChatCommand,
+			   searchHistory,
+			   searchHistoryDocuments,
+			   rerunSearchCommand,
+			   pinSearchCommand,
+			   unpinSearchCommand,
+			   deleteSearchCommand,
+			   compareSearchCommand,
+			   exportSearchCommand,
+			   clearSearchHistoryCommand,
+			   workspaceScope,
+			   selectFolderScopeCommand,
+			   changedFilesScope,
+			   selectChangedFilesScopeCommand,
+			   chatHistory,
+			   chatPanel,
 			   settingsCommand, 
 			   searchProvider, 
 			   statusBarItem, 
@@ -687,6 +1369,15 @@ export function activate(context: vscode.ExtensionContext) {
 			   removeDeadCodeSafeCommand,
 			   removeDeadCodeInteractiveCommand,
 			   removeDeadCodeDryRunCommand,
+			   deadCodeDiagnostics,
+			   deadCodeCodeActions,
+			   ignoreDeadCodeFindingCommand,
+			   toggleDeadCodeBaselineCommand,
+			   recordBaselineCommand,
+			   removeDeadCodeIssueCommand,
+			   viewDeadCodeIssueInReportCommand,
+			   filterDeadCodeByConfidenceCommand,
+			   filterDeadCodeByCategoryCommand,
 			   testAnalyzerCommand,
 			   analyzeCodeQualityCommand,
 			   codeQualityStatusBar,
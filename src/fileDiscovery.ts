@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.whatthecodeignore'];
+
+interface IgnoreRule {
+	regex: RegExp;
+	negate: boolean;
+	directoryOnly: boolean;
+	// Directory of the ignore file, relative to the workspace folder ('' for the root)
+	base: string;
+}
+
+interface CachedRules {
+	mtime: number;
+	rules: IgnoreRule[];
+}
+
+export interface DiscoveryOptions {
+	extensions?: string[];
+	excludePatterns?: string[];
+}
+
+export function globToRegExp(pattern: string): RegExp {
+	return new RegExp(`^${globToSource(pattern)}$`);
+}
+
+function globToSource(pattern: string): string {
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*' && pattern[i + 1] === '*') {
+			const followedBySlash = pattern[i + 2] === '/';
+			source += followedBySlash ? '(?:.*/)?' : '.*';
+			i += followedBySlash ? 2 : 1;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '[' && pattern.indexOf(']', i + 2) > i) {
+			const end = pattern.indexOf(']', i + 2);
+			const members = pattern.substring(i + 1, end).replace(/\\/g, '\\\\');
+			source += `[${members.startsWith('!') ? '^' + members.substring(1) : members}]`;
+			i = end;
+		} else if (char === '{' && pattern.indexOf('}', i) > i) {
+			const end = pattern.indexOf('}', i);
+			source += `(?:${pattern.substring(i + 1, end).split(',').map(globToSource).join('|')})`;
+			i = end;
+		} else if (char === '\\' && i + 1 < pattern.length) {
+			source += pattern[++i].replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return source;
+}
+
+/**
+ * Finds the files search, dead code and reports work on. Honours .gitignore
+ * (including nested ones), .whatthecodeignore, the files.exclude setting and
+ * a small built-in list of folders nobody wants analyzed. Build output and
+ * coverage folders are skipped too when no ignore file covers the path.
+ */
+export class FileDiscovery {
+	static readonly DEFAULT_EXCLUDE_PATTERNS = [
+		'**/node_modules/**',
+		'**/.git/**',
+		'**/*.min.js',
+		'**/*.bundle.js',
+		'**/.what-the-code-index/**',
+		'**/.what-the-code-reports/**',
+		'**/.ai-snapshots/**'
+	];
+
+	// Only used where no .gitignore or .whatthecodeignore applies, otherwise those decide
+	static readonly FALLBACK_EXCLUDE_PATTERNS = [
+		'**/dist/**',
+		'**/build/**',
+		'**/out/**',
+		'**/coverage/**',
+		'**/.nyc_output/**'
+	];
+
+	private static readonly FALLBACK_EXCLUDES = FileDiscovery.FALLBACK_EXCLUDE_PATTERNS.map(pattern => globToRegExp(pattern));
+
+	private ruleCache: Map<string, CachedRules> = new Map();
+
+	async findFiles(folder: vscode.WorkspaceFolder, options?: DiscoveryOptions): Promise<vscode.Uri[]> {
+		const extensions = options?.extensions;
+		const excludes = this.getExcludeRegExps(folder, options?.excludePatterns);
+		const files: vscode.Uri[] = [];
+
+		const walk = async (dirPath: string, relativeDir: string, inherited: IgnoreRule[]): Promise<void> => {
+			let entries: fs.Dirent[];
+			try {
+				entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+			} catch (error) {
+				console.warn(`Error reading directory ${dirPath}:`, error);
+				return;
+			}
+
+			const rules = entries.some(entry => entry.isFile() && IGNORE_FILE_NAMES.includes(entry.name))
+				? [...inherited, ...this.loadRules(dirPath, relativeDir)]
+				: inherited;
+
+			for (const entry of entries) {
+				const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+				const isDirectory = entry.isDirectory();
+				if (!isDirectory && !entry.isFile()) {
+					continue;
+				}
+				if (this.isExcluded(relativePath, isDirectory, rules, excludes)) {
+					continue;
+				}
+				if (isDirectory) {
+					await walk(path.join(dirPath, entry.name), relativePath, rules);
+				} else if (!extensions || extensions.includes(path.extname(entry.name))) {
+					files.push(vscode.Uri.file(path.join(dirPath, entry.name)));
+				}
+			}
+		};
+
+		await walk(folder.uri.fsPath, '', []);
+		return files;
+	}
+
+	isIgnored(uri: vscode.Uri, excludePatterns?: string[]): boolean {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) {
+			return true;
+		}
+		const relativePath = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+		if (!relativePath || relativePath.startsWith('..')) {
+			return true;
+		}
+
+		const excludes = this.getExcludeRegExps(folder, excludePatterns);
+		const segments = relativePath.split('/');
+		let rules: IgnoreRule[] = [];
+		// Walk down from the folder root like findFiles does, so an ignored parent hides everything below it
+		for (let i = 0; i < segments.length; i++) {
+			const relativeDir = segments.slice(0, i).join('/');
+			rules = [...rules, ...this.loadRules(path.join(folder.uri.fsPath, ...segments.slice(0, i)), relativeDir)];
+			const isDirectory = i < segments.length - 1;
+			if (this.isExcluded(segments.slice(0, i + 1).join('/'), isDirectory, rules, excludes)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private isExcluded(relativePath: string, isDirectory: boolean, rules: IgnoreRule[], excludes: RegExp[]): boolean {
+		// Directory globs like **/node_modules/** match the folder's contents, so test with a trailing slash too
+		const candidates = isDirectory ? [relativePath, `${relativePath}/`] : [relativePath];
+		if (excludes.some(regex => candidates.some(candidate => regex.test(candidate)))) {
+			return true;
+		}
+		if (rules.length === 0) {
+			return FileDiscovery.FALLBACK_EXCLUDES.some(regex => candidates.some(candidate => regex.test(candidate)));
+		}
+
+		// Later rules win, which is how "!" negations re-include files
+		let ignored = false;
+		for (const rule of rules) {
+			if (rule.directoryOnly && !isDirectory) {
+				continue;
+			}
+			if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+				continue;
+			}
+			const pathFromBase = rule.base ? relativePath.substring(rule.base.length + 1) : relativePath;
+			if (rule.regex.test(pathFromBase)) {
+				ignored = !rule.negate;
+			}
+		}
+		return ignored;
+	}
+
+	private getExcludeRegExps(folder: vscode.WorkspaceFolder, excludePatterns?: string[]): RegExp[] {
+		const filesExclude = vscode.workspace.getConfiguration('files', folder.uri).get<{ [pattern: string]: unknown }>('exclude', {});
+		// Only plain true entries, the { when: ... } form depends on sibling files
+		const fromSettings = Object.entries(filesExclude)
+			.filter(([, enabled]) => enabled === true)
+			.map(([pattern]) => pattern);
+		return [...(excludePatterns || FileDiscovery.DEFAULT_EXCLUDE_PATTERNS), ...fromSettings]
+			.map(pattern => globToRegExp(pattern));
+	}
+
+	private loadRules(dirPath: string, relativeDir: string): IgnoreRule[] {
+		return IGNORE_FILE_NAMES.flatMap(fileName => {
+			const filePath = path.join(dirPath, fileName);
+			let mtime: number;
+			try {
+				mtime = fs.statSync(filePath).mtimeMs;
+			} catch (error) {
+				this.ruleCache.delete(filePath);
+				return [];
+			}
+
+			const cached = this.ruleCache.get(filePath);
+			if (cached && cached.mtime === mtime) {
+				return cached.rules;
+			}
+			const rules = this.parseIgnoreFile(fs.readFileSync(filePath, 'utf8'), relativeDir);
+			this.ruleCache.set(filePath, { mtime, rules });
+			return rules;
+		});
+	}
+
+	private parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+		const rules: IgnoreRule[] = [];
+		for (const rawLine of content.split(/\r?\n/)) {
+			let line = rawLine.replace(/(?<!\\)\s+$/, '');
+			if (!line || line.startsWith('#')) {
+				continue;
+			}
+
+			const negate = line.startsWith('!');
+			if (negate) {
+				line = line.substring(1);
+			} else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+				line = line.substring(1);
+			}
+
+			const directoryOnly = line.endsWith('/');
+			if (directoryOnly) {
+				line = line.replace(/\/+$/, '');
+			}
+			// A slash anywhere but the end anchors the pattern to the ignore file's folder
+			const anchored = line.includes('/');
+			line = line.replace(/^\//, '');
+			if (!line) {
+				continue;
+			}
+
+			const source = globToSource(line);
+			rules.push({
+				regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+				negate,
+				directoryOnly,
+				base
+			});
+		}
+		return rules;
+	}
+}
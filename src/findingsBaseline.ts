@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeadCodeIssue } from './analyzeDeadCode';
+import { RefactoringRecommendation, TypeSafetyIssue } from './codeQualityAnalyzer';
+import { getLineName } from './suppressions';
+
+export const BASELINE_FILE = 'whatthecode.baseline.json';
+
+export type FindingKind = 'dead-code' | 'type-safety' | 'refactoring';
+
+export interface BaselineFinding {
+    // Path relative to the workspace folder, with forward slashes
+    file: string;
+    kind: FindingKind;
+    type: string;
+    name: string;
+    line: number;
+    description: string;
+}
+
+export interface FileFindings {
+    filePath: string;
+    deadCodeIssues?: DeadCodeIssue[];
+    typeSafetyIssues?: TypeSafetyIssue[];
+    refactoringRecommendations?: RefactoringRecommendation[];
+}
+
+export interface BaselineComparison {
+    recordedAt: Date;
+    newFindings: BaselineFinding[];
+    resolved: BaselineFinding[];
+}
+
+/**
+ * Findings acknowledged as legacy debt for one workspace folder. Matching is by
+ * file, kind, type and name (quality findings use their source line as name),
+ * so findings that only moved aren't reported as new.
+ */
+export class FindingsBaseline {
+    private constructor(readonly recordedAt: Date, private findings: BaselineFinding[]) {}
+
+    static load(folderPath: string): FindingsBaseline | undefined {
+        const baselinePath = path.join(folderPath, BASELINE_FILE);
+        try {
+            const data = JSON.parse(fs.readFileSync(baselinePath, 'utf8'));
+            const findings = Array.isArray(data?.findings) ? data.findings : [];
+            return new FindingsBaseline(new Date(data.recordedAt || 0), findings);
+        } catch (error) {
+            if (fs.existsSync(baselinePath)) {
+                console.warn(`Could not parse ${baselinePath}:`, error);
+            }
+            return undefined;
+        }
+    }
+
+    static async record(folderPath: string, findings: BaselineFinding[]): Promise<void> {
+        const sorted = [...findings].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.type.localeCompare(b.type));
+        await fs.promises.writeFile(
+            path.join(folderPath, BASELINE_FILE),
+            JSON.stringify({ recordedAt: new Date().toISOString(), findings: sorted }, null, 2) + '\n',
+            'utf8'
+        );
+    }
+
+    /** Quality findings need the file content for their names, dead code findings carry one. */
+    static createFindings(folderPath: string, findings: FileFindings, content = ''): BaselineFinding[] {
+        const file = path.relative(folderPath, findings.filePath).split(path.sep).join('/');
+        return [
+            ...(findings.deadCodeIssues || []).map(issue => ({
+                file, kind: 'dead-code' as const, type: issue.type, name: issue.name, line: issue.line, description: issue.description
+            })),
+            ...(findings.typeSafetyIssues || []).map(issue => ({
+                file, kind: 'type-safety' as const, type: issue.type, name: getLineName(content, issue.line), line: issue.line, description: issue.message
+            })),
+            ...(findings.refactoringRecommendations || []).map(recommendation => ({
+                file, kind: 'refactoring' as const, type: recommendation.type, name: getLineName(content, recommendation.line), line: recommendation.line, description: recommendation.description
+            }))
+        ];
+    }
+
+    /** Only baseline entries for analyzedFiles (folder-relative) can count as resolved, when given. */
+    compare(current: BaselineFinding[], analyzedFiles?: Set<string>, kinds?: FindingKind[]): BaselineComparison {
+        const remaining = new Map<string, BaselineFinding[]>();
+        for (const finding of this.findings) {
+            if ((!analyzedFiles || analyzedFiles.has(finding.file)) && (!kinds || kinds.includes(finding.kind))) {
+                const key = this.getKey(finding);
+                remaining.set(key, [...remaining.get(key) || [], finding]);
+            }
+        }
+
+        const newFindings: BaselineFinding[] = [];
+        for (const finding of current) {
+            const matches = remaining.get(this.getKey(finding));
+            if (matches && matches.length > 0) {
+                matches.pop();
+            } else {
+                newFindings.push(finding);
+            }
+        }
+        return { recordedAt: this.recordedAt, newFindings, resolved: [...remaining.values()].flat() };
+    }
+
+    private getKey(finding: BaselineFinding): string {
+        return `${finding.file}|${finding.kind}|${finding.type}|${finding.name}`;
+    }
+}
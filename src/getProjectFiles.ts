@@ -1,71 +1,40 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
+import { FileDiscovery } from './fileDiscovery';
 
 export interface ProjectFile {
     filePath: string;
     relativePath: string;
     extension: string;
+    rootPath: string;
 }
 
 export class ProjectFileCollector {
-    private readonly supportedExtensions = ['.js', '.ts', '.jsx', '.tsx'];
-    private readonly ignoredDirectories = [
-        'node_modules',
-        '.git',
-        'dist',
-        'build',
-        'out',
-        '.vscode',
-        'coverage',
-        '.nyc_output',
-        'lib',
-        'types'
-    ];
+    private readonly supportedExtensions = ['.js', '.ts', '.jsx', '.tsx', '.css', '.scss'];
+    private discovery = new FileDiscovery();
 
-    async collectProjectFiles(): Promise<ProjectFile[]> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+    async collectProjectFiles(folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders || []): Promise<ProjectFile[]> {
+        if (folders.length === 0) {
             throw new Error('No workspace folder found');
         }
 
+        // Match asRelativePath: in multi-root workspaces paths are prefixed with the folder name
+        const prefixWithFolder = (vscode.workspace.workspaceFolders?.length || 0) > 1;
         const files: ProjectFile[] = [];
-        await this.walkDirectory(workspaceFolder.uri.fsPath, workspaceFolder.uri.fsPath, files);
-        
-        return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
-    }
-
-    private async walkDirectory(dirPath: string, rootPath: string, files: ProjectFile[]): Promise<void> {
-        try {
-            const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
-
-            for (const entry of entries) {
-                const fullPath = path.join(dirPath, entry.name);
-
-                if (entry.isDirectory()) {
-                    
-                    if (this.ignoredDirectories.includes(entry.name)) {
-                        continue;
-                    }
-
-                    
-                    await this.walkDirectory(fullPath, rootPath, files);
-                } else if (entry.isFile()) {
-                    const ext = path.extname(entry.name);
-                    
-                    
-                    if (this.supportedExtensions.includes(ext)) {
-                        files.push({
-                            filePath: fullPath,
-                            relativePath: path.relative(rootPath, fullPath),
-                            extension: ext
-                        });
-                    }
-                }
+        for (const folder of folders) {
+            const rootPath = folder.uri.fsPath;
+            const uris = await this.discovery.findFiles(folder, { extensions: this.supportedExtensions });
+            for (const uri of uris) {
+                files.push({
+                    filePath: uri.fsPath,
+                    relativePath: path.join(prefixWithFolder ? folder.name : '', path.relative(rootPath, uri.fsPath)),
+                    extension: path.extname(uri.fsPath),
+                    rootPath
+                });
             }
-        } catch (error) {
-            console.warn(`Error reading directory ${dirPath}:`, error);
         }
+        
+        return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
     }
 
     getFileCount(files: ProjectFile[]): { total: number; byExtension: Record<string, number> } {
@@ -5,6 +5,8 @@ import { CodeQualityMetrics, TypeSafetyIssue, RefactoringRecommendation } from '
 import { DeadCodeIssue } from './analyzeDeadCode';
 import { SearchResult } from './types';
 import { TeamLeaderboard } from './teamLeaderboard';
+import { WorkspaceScope } from './workspaceScope';
+import { BaselineComparison, BaselineFinding, FindingsBaseline } from './findingsBaseline';
 
 export interface FileAnalysisReport {
     filePath: string;
@@ -22,6 +24,8 @@ export interface FileAnalysisReport {
 export interface ProjectReport {
     projectName: string;
     timestamp: Date;
+    // Set when only changed files were analyzed, e.g. "Changes vs main"
+    scope?: string;
     files: FileAnalysisReport[];
     summary: {
         totalFiles: number;
@@ -33,32 +37,22 @@ export interface ProjectReport {
 
 export class HTMLReportGenerator {
     private outputChannel: vscode.OutputChannel;
-    private reportsPath: string;
     private teamLeaderboard: TeamLeaderboard;
+    // Newest report per analyzed file, so jumping to a finding doesn't write a new report each time
+    private latestFileReports: Map<string, string> = new Map();
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('What-The-Code Reports');
         this.teamLeaderboard = new TeamLeaderboard();
-        
-        // Create reports directory in workspace, but use file name for file reports
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        let reportsBasePath = workspaceFolder 
-            ? path.join(workspaceFolder.uri.fsPath)
-            : path.join(require('os').homedir());
-
-        // Default folder name
-        let reportsFolderName = '.what-the-code-reports';
-
-        // If generating a file report, use the file name as the folder name
-        // Otherwise, fallback to project name for project reports
-        this.reportsPath = path.join(reportsBasePath, reportsFolderName);
-        this.ensureReportsDirectory();
     }
 
-    private ensureReportsDirectory(): void {
-        if (!fs.existsSync(this.reportsPath)) {
-            fs.mkdirSync(this.reportsPath, { recursive: true });
+    // Each workspace folder keeps its own reports, so multi-root projects don't mix them
+    private ensureReportsDirectory(folder?: vscode.WorkspaceFolder): string {
+        const reportsPath = this.getReportsPath(folder);
+        if (!fs.existsSync(reportsPath)) {
+            fs.mkdirSync(reportsPath, { recursive: true });
         }
+        return reportsPath;
     }
 
     async generateFileReport(
@@ -87,9 +81,11 @@ export class HTMLReportGenerator {
 
         const htmlContent = this.generateFileHTML(report);
         const fileName = this.generateFileReportName(relativePath);
-        const reportPath = path.join(this.reportsPath, fileName);
+        const reportsPath = this.ensureReportsDirectory(vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)));
+        const reportPath = path.join(reportsPath, fileName);
         
         fs.writeFileSync(reportPath, htmlContent, 'utf8');
+        this.latestFileReports.set(filePath, reportPath);
         
         // Update team leaderboard with this report
         await this.teamLeaderboard.updateContributorStats(report);
@@ -98,9 +94,11 @@ export class HTMLReportGenerator {
         return reportPath;
     }
 
-    async generateProjectReport(reports: FileAnalysisReport[]): Promise<string> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const projectName = workspaceFolder?.name || 'Unknown Project';
+    async generateProjectReport(reports: FileAnalysisReport[], folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders || [], scope?: string): Promise<string> {
+        // A report over several folders is named after the workspace and saved in the first one
+        const projectName = folders.length > 1
+            ? (vscode.workspace.name || folders[0].name).replace(/ \(Workspace\)$/, '')
+            : folders[0]?.name || 'Unknown Project';
         
         const totalIssues = reports.reduce((sum, report) => 
             sum + report.typeSafetyIssues.length + 
@@ -114,6 +112,7 @@ export class HTMLReportGenerator {
         const projectReport: ProjectReport = {
             projectName,
             timestamp: new Date(),
+            scope,
             files: reports,
             summary: {
                 totalFiles: reports.length,
@@ -125,7 +124,7 @@ export class HTMLReportGenerator {
 
         const htmlContent = this.generateProjectHTML(projectReport);
         const fileName = this.generateProjectReportName(projectName);
-        const reportPath = path.join(this.reportsPath, fileName);
+        const reportPath = path.join(this.ensureReportsDirectory(folders[0]), fileName);
         
         fs.writeFileSync(reportPath, htmlContent, 'utf8');
         
@@ -173,6 +172,7 @@ export class HTMLReportGenerator {
             </div>
         </div>
 
+        ${this.generateBaselineSection([report])}
         ${this.generateMetricsSection(report.metrics)}
         ${this.generateTypeSafetySection(report.typeSafetyIssues)}
         ${this.generateRefactoringSection(report.refactoringRecommendations)}
@@ -200,7 +200,7 @@ export class HTMLReportGenerator {
 </head>
 <body>
     <div class="container">
-        ${this.generateHeader(report.projectName, 'Project Analysis Report')}
+        ${this.generateHeader(report.projectName, report.scope ? `Project Analysis Report: ${this.escapeHtml(report.scope)}` : 'Project Analysis Report')}
         
         ${this.generatePDFButton()}
         
@@ -223,6 +223,7 @@ export class HTMLReportGenerator {
             </div>
         </div>
 
+        ${this.generateBaselineSection(report.files)}
         ${this.generateProjectChartsSection(report)}
         ${this.generateFileListSection(report.files)}
         
@@ -365,12 +366,14 @@ export class HTMLReportGenerator {
         }
 
         const issuesList = issues.map(issue => `
-            <div class="dead-code-item ${issue.confidence}">
+            <div class="dead-code-item ${issue.confidence}" id="${this.getDeadCodeAnchor(issue)}">
                 <div class="dead-code-header">
                     <span class="dead-code-type">${issue.type}</span>
                     <span class="dead-code-name">${issue.name}</span>
                     <span class="dead-code-location">Line ${issue.line}</span>
                     <span class="confidence-badge ${issue.confidence}">${issue.confidence}</span>
+                    ${issue.category === 'test-only' ? '<span class="confidence-badge low">test-only</span>' : ''}
+                    ${issue.runtimeHits === 0 ? '<span class="confidence-badge high">never ran</span>' : ''}
                 </div>
                 <div class="dead-code-description">${issue.description}</div>
             </div>
@@ -385,6 +388,72 @@ export class HTMLReportGenerator {
         </section>`;
     }
 
+    /** Empty unless a folder the files belong to has a recorded baseline. */
+    private generateBaselineSection(files: FileAnalysisReport[]): string {
+        const comparison = this.compareWithBaseline(files);
+        if (!comparison) {
+            return '';
+        }
+
+        const showFile = files.length > 1;
+        const renderFinding = (finding: BaselineFinding) => `
+            <div class="issue-item">
+                <div class="issue-header">
+                    <span class="issue-type">${finding.kind}: ${finding.type}</span>
+                    <span class="issue-location">${showFile ? `${this.escapeHtml(finding.file)}:` : 'Line '}${finding.line}</span>
+                </div>
+                <div class="issue-message">${this.escapeHtml(finding.description)}</div>
+            </div>
+        `;
+        const resolved = comparison.resolved.length > 0 ? `
+            <details class="baseline-resolved">
+                <summary>✅ ${comparison.resolved.length} finding(s) from the baseline are resolved</summary>
+                <div class="issues-list">
+                    ${comparison.resolved.map(renderFinding).join('')}
+                </div>
+            </details>` : '';
+
+        return `
+        <section class="report-section" id="new-since-baseline">
+            <h2>🆕 New Since Baseline (${comparison.newFindings.length})</h2>
+            <p>Compared with the baseline recorded ${comparison.recordedAt.toLocaleString()}.</p>
+            ${comparison.newFindings.length === 0
+                ? '<div class="no-issues">Nothing new since the baseline!</div>'
+                : `<div class="issues-list">${comparison.newFindings.map(renderFinding).join('')}</div>`}
+            ${resolved}
+        </section>`;
+    }
+
+    private compareWithBaseline(files: FileAnalysisReport[]): BaselineComparison | undefined {
+        const filesByFolder = new Map<string, FileAnalysisReport[]>();
+        for (const file of files) {
+            const folderPath = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file.filePath))?.uri.fsPath;
+            if (folderPath) {
+                filesByFolder.set(folderPath, [...filesByFolder.get(folderPath) || [], file]);
+            }
+        }
+
+        let comparison: BaselineComparison | undefined;
+        for (const [folderPath, folderFiles] of filesByFolder) {
+            const baseline = FindingsBaseline.load(folderPath);
+            if (!baseline) {
+                continue;
+            }
+            const current = folderFiles.flatMap(file => {
+                const content = fs.existsSync(file.filePath) ? fs.readFileSync(file.filePath, 'utf8') : '';
+                return FindingsBaseline.createFindings(folderPath, file, content);
+            });
+            const analyzedFiles = new Set(folderFiles.map(file => path.relative(folderPath, file.filePath).split(path.sep).join('/')));
+            const result = baseline.compare(current, analyzedFiles);
+            comparison = {
+                recordedAt: comparison && comparison.recordedAt < result.recordedAt ? comparison.recordedAt : result.recordedAt,
+                newFindings: [...comparison?.newFindings || [], ...result.newFindings],
+                resolved: [...comparison?.resolved || [], ...result.resolved]
+            };
+        }
+        return comparison;
+    }
+
     private generateSearchResultsSection(results: SearchResult[]): string {
         if (results.length === 0) return '';
 
@@ -1034,9 +1103,24 @@ export class HTMLReportGenerator {
             .replace(/'/g, '&#039;');
     }
 
-    async openReport(reportPath: string): Promise<void> {
+    /** Element id of a finding in file reports; the column and name tell apart findings on one line. */
+    getDeadCodeAnchor(issue: DeadCodeIssue): string {
+        const slug = issue.name.replace(/[^a-zA-Z0-9_-]+/g, '-');
+        return `dead-code-${issue.line}-${issue.column}-${issue.type}-${slug}`;
+    }
+
+    /** The newest report generated for the file if it still exists and contains the finding. */
+    findFileReportWithIssue(issue: DeadCodeIssue): string | undefined {
+        const reportPath = this.latestFileReports.get(issue.filePath);
+        if (!reportPath || !fs.existsSync(reportPath)) {
+            return undefined;
+        }
+        return fs.readFileSync(reportPath, 'utf8').includes(`id="${this.getDeadCodeAnchor(issue)}"`) ? reportPath : undefined;
+    }
+
+    async openReport(reportPath: string, fragment?: string): Promise<void> {
         try {
-            const uri = vscode.Uri.file(reportPath);
+            const uri = vscode.Uri.file(reportPath).with({ fragment });
             await vscode.env.openExternal(uri);
             this.outputChannel.appendLine(`📖 Opened report: ${reportPath}`);
         } catch (error) {
@@ -1045,9 +1129,9 @@ export class HTMLReportGenerator {
         }
     }
 
-    async openTeamLeaderboard(): Promise<void> {
+    async openTeamLeaderboard(folder?: vscode.WorkspaceFolder): Promise<void> {
         try {
-            await this.teamLeaderboard.openLeaderboard();
+            await this.teamLeaderboard.openLeaderboard(folder);
         } catch (error) {
             this.outputChannel.appendLine(`❌ Failed to open team leaderboard: ${error}`);
             vscode.window.showErrorMessage(`Failed to open team leaderboard: ${error}`);
@@ -1066,11 +1150,11 @@ export class HTMLReportGenerator {
             
             if (!fs.existsSync(reportPath)) {
                 this.outputChannel.appendLine(`❌ Report file does not exist at: ${reportPath}`);
-                this.outputChannel.appendLine(`📁 Reports directory: ${this.reportsPath}`);
+                this.outputChannel.appendLine(`📁 Reports directory: ${path.dirname(reportPath)}`);
                 
                 // List files in reports directory for debugging
                 try {
-                    const files = fs.readdirSync(this.reportsPath);
+                    const files = fs.readdirSync(path.dirname(reportPath));
                     this.outputChannel.appendLine(`📋 Files in reports directory: ${files.join(', ')}`);
                 } catch (err) {
                     this.outputChannel.appendLine(`❌ Could not read reports directory: ${err}`);
@@ -1101,8 +1185,15 @@ export class HTMLReportGenerator {
         }
     }
 
-    getReportsPath(): string {
-        return this.reportsPath;
+    getReportsPath(folder?: vscode.WorkspaceFolder): string {
+        return WorkspaceScope.getReportsDirectory(folder);
+    }
+
+    getAllReportsPaths(): string[] {
+        const folders = WorkspaceScope.getAllFolders();
+        return folders.length > 0
+            ? folders.map(folder => this.getReportsPath(folder))
+            : [this.getReportsPath()];
     }
 
     dispose(): void {
@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { CodeCollector } from './codeCollector';
+import { SearchIndex } from './types';
+
+export interface IndexStatus {
+	filesIndexed: number;
+	staleCount: number;
+	lastUpdate: Date | null;
+	indexing: boolean;
+}
+
+type PendingChange = 'update' | 'delete';
+
+export class IndexWatcher implements vscode.Disposable {
+	private _onDidChangeStatus: vscode.EventEmitter<IndexStatus> = new vscode.EventEmitter<IndexStatus>();
+	readonly onDidChangeStatus: vscode.Event<IndexStatus> = this._onDidChangeStatus.event;
+
+	private pending: Map<string, { uri: vscode.Uri; change: PendingChange }> = new Map();
+	private failed: Set<string> = new Set();
+	private disposables: vscode.Disposable[] = [];
+	private timer: NodeJS.Timeout | undefined;
+	private flushing: Promise<void> | undefined;
+	private lastUpdate: Date | null = null;
+
+	constructor(
+		private getIndexes: () => SearchIndex[],
+		private codeCollector: CodeCollector,
+		private debounceMs: number = 1500
+	) {
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+		this.disposables.push(
+			watcher,
+			watcher.onDidCreate(uri => this.schedule(uri, 'update')),
+			watcher.onDidChange(uri => this.schedule(uri, 'update')),
+			watcher.onDidDelete(uri => this.schedule(uri, 'delete')),
+			vscode.workspace.onDidSaveTextDocument(document => this.schedule(document.uri, 'update')),
+			vscode.workspace.onDidRenameFiles(event => {
+				event.files.forEach(({ oldUri, newUri }) => {
+					this.schedule(oldUri, 'delete');
+					this.schedule(newUri, 'update');
+				});
+			}),
+			vscode.workspace.onDidDeleteFiles(event => {
+				event.files.forEach(uri => this.schedule(uri, 'delete'));
+			})
+		);
+	}
+
+	getStatus(): IndexStatus {
+		const indexes = this.getIndexes();
+		const updatedAt = indexes
+			.map(index => index.getStats().updatedAt)
+			.filter((date): date is Date => date !== null)
+			.sort((a, b) => b.getTime() - a.getTime())[0] || null;
+		return {
+			filesIndexed: indexes.length > 0 ? Math.max(...indexes.map(index => index.getStats().files)) : 0,
+			staleCount: this.pending.size + this.failed.size,
+			lastUpdate: this.lastUpdate || updatedAt,
+			indexing: this.flushing !== undefined
+		};
+	}
+
+	async flush(): Promise<void> {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+		while (this.flushing) {
+			await this.flushing;
+		}
+		// Folders found while processing queue their files, so keep going until nothing is left
+		while (this.pending.size > 0) {
+			this.flushing = this.processPending();
+			this.refreshStatus();
+			try {
+				await this.flushing;
+			} finally {
+				this.flushing = undefined;
+				this.refreshStatus();
+			}
+		}
+	}
+
+	private schedule(uri: vscode.Uri, change: PendingChange): void {
+		if (uri.scheme !== 'file' || this.getIndexes().length === 0) {
+			return;
+		}
+		this.pending.set(uri.fsPath, { uri, change });
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+		// Bursts (git checkout, formatter on save, npm install) settle into a single update
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.flush().catch(error => console.error('Index update failed:', error));
+		}, this.debounceMs);
+		this.refreshStatus();
+	}
+
+	private async processPending(): Promise<void> {
+		const changes = Array.from(this.pending.values());
+		this.pending.clear();
+		const indexes = this.getIndexes();
+		const touched = new Set<SearchIndex>();
+
+		for (const { uri, change } of changes) {
+			const relativePath = vscode.workspace.asRelativePath(uri);
+			if (change === 'delete') {
+				// A deleted folder takes every indexed file below it with it
+				for (const index of indexes) {
+					for (const filePath of index.getIndexedFiles()) {
+						if (filePath === relativePath || filePath.startsWith(`${relativePath}/`)) {
+							index.removeFile(filePath);
+							touched.add(index);
+						}
+					}
+				}
+				this.failed.delete(uri.fsPath);
+				continue;
+			}
+
+			const file = await this.readChangedFile(uri);
+			if (!file) {
+				continue;
+			}
+			for (const index of indexes) {
+				try {
+					if (await index.indexFile(file)) {
+						touched.add(index);
+					}
+					this.failed.delete(uri.fsPath);
+				} catch (error) {
+					console.warn(`Failed to re-index ${relativePath} in ${index.name}:`, error);
+					this.failed.add(uri.fsPath);
+				}
+			}
+		}
+
+		touched.forEach(index => index.save());
+		if (touched.size > 0) {
+			this.lastUpdate = new Date();
+		}
+	}
+
+	private async readChangedFile(uri: vscode.Uri) {
+		try {
+			const stat = await vscode.workspace.fs.stat(uri);
+			if (stat.type & vscode.FileType.Directory) {
+				// Renamed or checked-out folders: pick up every code file inside
+				const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*'));
+				files.forEach(file => this.pending.set(file.fsPath, { uri: file, change: 'update' }));
+				return undefined;
+			}
+		} catch (error) {
+			return undefined;
+		}
+		return this.codeCollector.readCodeFile(uri);
+	}
+
+	refreshStatus(): void {
+		this._onDidChangeStatus.fire(this.getStatus());
+	}
+
+	dispose(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+		this.disposables.forEach(disposable => disposable.dispose());
+		this._onDidChangeStatus.dispose();
+	}
+}
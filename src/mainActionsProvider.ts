@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { IndexStatus } from './indexWatcher';
 
 export class ActionItem extends vscode.TreeItem {
     constructor(
@@ -24,12 +25,26 @@ export class MainActionsProvider implements vscode.TreeDataProvider<ActionItem>
     private _onDidChangeTreeData: vscode.EventEmitter<ActionItem | undefined | null | void> = new vscode.EventEmitter<ActionItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<ActionItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
+    private indexStatus: IndexStatus | undefined;
+    private folderScope: string | undefined;
+
     constructor() {}
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    updateIndexStatus(status: IndexStatus): void {
+        this.indexStatus = status;
+        this.refresh();
+    }
+
+    // Only multi-root workspaces get a scope, undefined hides the item
+    updateFolderScope(label: string | undefined): void {
+        this.folderScope = label;
+        this.refresh();
+    }
+
     getTreeItem(element: ActionItem): vscode.TreeItem {
         return element;
     }
@@ -45,6 +60,15 @@ export class MainActionsProvider implements vscode.TreeDataProvider<ActionItem>
                     new vscode.ThemeIcon('search'),
                     'Use AI to search and understand your codebase - ask questions like "Where is user authentication handled?" or "Show me all React components"'
                 ),
+                new ActionItem(
+                    '💬 Follow-up Chat',
+                    'Refine your last search',
+                    'what-the-code.openChat',
+                    new vscode.ThemeIcon('comment-discussion'),
+                    'Continue from your last search with follow-up questions like "and where is that called from?" - the conversation is saved per workspace'
+                ),
+                ...this.getFolderScopeItems(),
+                ...this.getIndexStatusItems(),
                 new ActionItem(
                     '📸 Save Snapshot',
                     'Save current file state',
@@ -53,11 +77,11 @@ export class MainActionsProvider implements vscode.TreeDataProvider<ActionItem>
                     'Create a snapshot of the current file that you can restore later - perfect for checkpointing before major changes'
                 ),
                 new ActionItem(
-                    '🧪 Test Gemini API',
-                    'Test AI connection',
+                    '🧪 Test AI Connection',
+                    'Test AI provider connection',
                     'what-the-code.testGemini',
                     new vscode.ThemeIcon('plug'),
-                    'Test your Gemini API connection to ensure the AI features are working properly'
+                    'Test the connection to your configured AI provider (Gemini or Ollama) to ensure the AI features are working properly'
                 ),
                 new ActionItem(
                     '⚙️ Configure Settings',
@@ -86,6 +110,59 @@ export class MainActionsProvider implements vscode.TreeDataProvider<ActionItem>
         return Promise.resolve([]);
     }
 
+    private getFolderScopeItems(): ActionItem[] {
+        if (!this.folderScope) {
+            return [];
+        }
+
+        return [
+            new ActionItem(
+                '📂 Folder Scope',
+                this.folderScope,
+                'what-the-code.selectFolderScope',
+                new vscode.ThemeIcon('root-folder'),
+                `Search, dead code, reports and snapshots currently cover: ${this.folderScope}. Click to switch to another workspace folder or all folders`
+            )
+        ];
+    }
+
+    private getIndexStatusItems(): ActionItem[] {
+        if (!this.indexStatus) {
+            return [];
+        }
+
+        const { filesIndexed, staleCount, lastUpdate, indexing } = this.indexStatus;
+        const parts = [`${filesIndexed} files`];
+        if (indexing) {
+            parts.push('updating...');
+        } else if (staleCount > 0) {
+            parts.push(`${staleCount} stale`);
+        }
+        parts.push(lastUpdate ? `updated ${this.formatAge(lastUpdate)}` : 'never built');
+
+        return [
+            new ActionItem(
+                '🧠 Search Index',
+                parts.join(' · '),
+                'what-the-code.rebuildIndex',
+                new vscode.ThemeIcon(indexing ? 'sync~spin' : 'database'),
+                `${filesIndexed} files indexed, ${staleCount} pending update. The index refreshes automatically when files are saved, renamed or deleted - click to rebuild it from scratch`
+            )
+        ];
+    }
+
+    private formatAge(date: Date): string {
+        const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+        if (seconds < 60) {
+            return 'just now';
+        } else if (seconds < 3600) {
+            return `${Math.floor(seconds / 60)}m ago`;
+        } else if (seconds < 86400) {
+            return `${Math.floor(seconds / 3600)}h ago`;
+        }
+        return date.toLocaleDateString();
+    }
+
     getParent(element: ActionItem): vscode.ProviderResult<ActionItem> {
         return null;
     }
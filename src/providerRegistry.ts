@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { AIProvider, QueryOptions } from './types';
+import { GeminiProvider, OllamaProvider, OpenAICompatibleProvider, ProviderError } from './aiProviders';
+import { CredentialStore } from './credentialStore';
+
+export type ProviderFactory = (config: vscode.WorkspaceConfiguration, apiKey: string) => AIProvider;
+
+export type FallbackListener = (failed: AIProvider, error: Error, next: AIProvider) => void;
+
+export class FallbackProvider implements AIProvider {
+	name: string;
+	private lastResponder: string | undefined;
+
+	constructor(private providers: AIProvider[], private onFallback?: FallbackListener) {
+		if (providers.length === 0) {
+			throw new Error('FallbackProvider needs at least one provider');
+		}
+		this.name = providers.map(provider => provider.name).join(' → ');
+	}
+
+	async query(prompt: string, options?: QueryOptions): Promise<string> {
+		this.lastResponder = undefined;
+		for (let i = 0; i < this.providers.length; i++) {
+			const provider = this.providers[i];
+			const next = this.providers[i + 1];
+			try {
+				const response = await provider.query(prompt, options);
+				this.lastResponder = provider.name;
+				return response;
+			} catch (error: any) {
+				if (!next || !(error instanceof ProviderError) || !error.retryable) {
+					throw error;
+				}
+				this.onFallback?.(provider, error, next);
+			}
+		}
+		throw new Error('No AI provider answered the request');
+	}
+
+	async queryStream(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal, options?: QueryOptions): Promise<string> {
+		this.lastResponder = undefined;
+		for (let i = 0; i < this.providers.length; i++) {
+			const provider = this.providers[i];
+			const next = this.providers[i + 1];
+			let streamed = false;
+			try {
+				const forward = (chunk: string) => {
+					if (!streamed) {
+						streamed = true;
+						this.lastResponder = provider.name;
+					}
+					onChunk(chunk);
+				};
+				const response = provider.queryStream
+					? await provider.queryStream(prompt, forward, signal, options)
+					: await provider.query(prompt, options).then(text => {
+						forward(text);
+						return text;
+					});
+				this.lastResponder = provider.name;
+				return response;
+			} catch (error: any) {
+				// Once part of an answer has been shown, switching providers would mix two answers
+				if (streamed || signal?.aborted || !next || !(error instanceof ProviderError) || !error.retryable) {
+					throw error;
+				}
+				this.onFallback?.(provider, error, next);
+			}
+		}
+		throw new Error('No AI provider answered the request');
+	}
+
+	getLastResponder(): string | undefined {
+		return this.lastResponder;
+	}
+
+	getProviders(): AIProvider[] {
+		return [...this.providers];
+	}
+}
+
+export class ProviderRegistry {
+	private factories: Map<string, ProviderFactory> = new Map();
+
+	constructor(private credentials?: CredentialStore) {}
+
+	register(id: string, factory: ProviderFactory): void {
+		this.factories.set(id, factory);
+	}
+
+	has(id: string): boolean {
+		return this.factories.has(id);
+	}
+
+	getProviderIds(): string[] {
+		return Array.from(this.factories.keys());
+	}
+
+	async create(id: string, config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('whatTheCode')): Promise<AIProvider> {
+		const factory = this.factories.get(id);
+		if (!factory) {
+			throw new Error(`Unknown AI provider "${id}". Available providers: ${this.getProviderIds().join(', ')}`);
+		}
+		const apiKey = this.credentials ? await this.credentials.getApiKey(id) : '';
+		return factory(config, apiKey);
+	}
+
+	async createConfigured(): Promise<AIProvider> {
+		const config = vscode.workspace.getConfiguration('whatTheCode');
+		return this.create(config.get<string>('aiProvider', 'gemini'), config);
+	}
+
+	getFallbackChain(config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('whatTheCode')): string[] {
+		const primary = config.get<string>('aiProvider', 'gemini');
+		const fallbacks = config.get<string[]>('aiProviderFallbacks', []);
+		return [primary, ...fallbacks].filter((id, index, ids) => ids.indexOf(id) === index);
+	}
+
+	async createWithFallbacks(onFallback?: FallbackListener): Promise<AIProvider> {
+		const config = vscode.workspace.getConfiguration('whatTheCode');
+		const chain: AIProvider[] = [];
+		for (const id of this.getFallbackChain(config)) {
+			if (this.has(id)) {
+				chain.push(await this.create(id, config));
+			}
+		}
+		if (chain.length === 0) {
+			return this.createConfigured();
+		}
+		return chain.length === 1 ? chain[0] : new FallbackProvider(chain, onFallback);
+	}
+
+	static createDefault(credentials?: CredentialStore): ProviderRegistry {
+		const registry = new ProviderRegistry(credentials);
+
+		registry.register('gemini', (config, apiKey) => new GeminiProvider(
+			apiKey,
+			config.get<string>('geminiModel', 'gemini-1.5-flash')
+		));
+
+		registry.register('ollama', config => new OllamaProvider(
+			config.get<string>('ollamaBaseUrl', 'http://localhost:11434'),
+			config.get<string>('ollamaModel', 'codellama:7b-instruct')
+		));
+
+		registry.register('openai', (config, apiKey) => new OpenAICompatibleProvider({
+			baseUrl: config.get<string>('openaiBaseUrl', 'https://api.openai.com/v1'),
+			model: config.get<string>('openaiModel', 'gpt-4o-mini'),
+			apiKey,
+			headers: config.get<{ [key: string]: string }>('openaiHeaders', {})
+		}));
+
+		return registry;
+	}
+}
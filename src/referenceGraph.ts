@@ -0,0 +1,359 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ProjectFile } from './getProjectFiles';
+import { AstAnalyzer } from './astAnalyzer';
+
+export interface ModuleExport {
+    name: string;
+    line: number;
+    column: number;
+    // Identifier the export is bound to inside the module, if any
+    localName?: string;
+}
+
+export interface ModuleImport {
+    specifier: string;
+    resolvedPath?: string;
+    // '*' means the whole module is used (namespace import, require, import())
+    names: string[];
+    line: number;
+}
+
+export interface ModuleReExport {
+    specifier: string;
+    resolvedPath?: string;
+    // Exported name -> name in the source module ('*' for `export * as ns`); undefined for `export *`
+    names?: Map<string, string>;
+}
+
+export interface ModuleNode {
+    file: ProjectFile;
+    exports: ModuleExport[];
+    imports: ModuleImport[];
+    reExports: ModuleReExport[];
+    importedBy: Set<string>;
+    // Export name ('*' for the whole module) -> files whose imports use it, re-exports followed
+    usedExports: Map<string, Set<string>>;
+    identifierCounts: Map<string, number>;
+}
+
+/**
+ * Workspace-wide import/export graph. Resolves relative imports, index files
+ * and tsconfig paths/baseUrl the same way the TypeScript compiler does, so an
+ * export nobody imports can be told apart from one that is used elsewhere.
+ */
+export class ReferenceGraph {
+    private modules: Map<string, ModuleNode> = new Map();
+    private compilerOptionsCache: Map<string, ts.CompilerOptions> = new Map();
+
+    static async build(files: ProjectFile[]): Promise<ReferenceGraph> {
+        const graph = new ReferenceGraph();
+        // Stylesheets are imported for their side effects, they have no exports to track
+        for (const file of files.filter(file => AstAnalyzer.supports(file.filePath))) {
+            try {
+                const content = await fs.promises.readFile(file.filePath, 'utf8');
+                graph.modules.set(graph.normalize(file.filePath), graph.parseModule(file, content));
+            } catch (error) {
+                console.warn(`Error reading ${file.filePath} for reference graph:`, error);
+            }
+        }
+
+        graph.link();
+        return graph;
+    }
+
+    getModule(filePath: string): ModuleNode | undefined {
+        return this.modules.get(this.normalize(filePath));
+    }
+
+    getModules(): ModuleNode[] {
+        return [...this.modules.values()];
+    }
+
+    getModuleCount(): number {
+        return this.modules.size;
+    }
+
+    isExported(filePath: string, localName: string): boolean {
+        const module = this.getModule(filePath);
+        return !!module && module.exports.some(exp => (exp.localName || exp.name) === localName);
+    }
+
+    /** Files that use the export, directly or through a barrel's re-export. */
+    getExportUsers(filePath: string, exportName: string): Set<string> {
+        const module = this.getModule(filePath);
+        if (!module) {
+            return new Set();
+        }
+        return new Set([...module.usedExports.get('*') || [], ...module.usedExports.get(exportName) || []]);
+    }
+
+    /** Every module reachable from the roots by following imports, re-exports, require() and import(). */
+    collectReachable(roots: Iterable<string>): Set<string> {
+        const reachable = new Set<string>();
+        const pending = [...roots].map(root => this.normalize(root)).filter(root => this.modules.has(root));
+        while (pending.length > 0) {
+            const filePath = pending.pop()!;
+            if (reachable.has(filePath)) {
+                continue;
+            }
+            reachable.add(filePath);
+            const module = this.modules.get(filePath)!;
+            for (const ref of [...module.imports, ...module.reExports]) {
+                if (ref.resolvedPath && !reachable.has(ref.resolvedPath)) {
+                    pending.push(ref.resolvedPath);
+                }
+            }
+        }
+        return reachable;
+    }
+
+    /** package.json usually points at build output, map a path in it back to the project's source file. */
+    findSourceFile(target: string, rootPath: string): string | undefined {
+        const candidates = this.getSourceCandidates(path.resolve(rootPath, target), this.getCompilerOptions(rootPath));
+        return candidates.find(candidate => this.modules.has(candidate));
+    }
+
+    private link(): void {
+        for (const [filePath, module] of this.modules) {
+            for (const ref of [...module.imports, ...module.reExports]) {
+                ref.resolvedPath = this.resolve(ref.specifier, filePath);
+                if (ref.resolvedPath) {
+                    this.modules.get(ref.resolvedPath)!.importedBy.add(filePath);
+                }
+            }
+        }
+
+        for (const [filePath, module] of this.modules) {
+            for (const imp of module.imports) {
+                if (imp.resolvedPath) {
+                    imp.names.forEach(name => this.markUsed(imp.resolvedPath!, name, filePath));
+                }
+            }
+        }
+    }
+
+    private markUsed(filePath: string, name: string, user: string): void {
+        const module = this.modules.get(filePath);
+        if (!module || module.usedExports.get('*')?.has(user) || module.usedExports.get(name)?.has(user)) {
+            return;
+        }
+        const users = module.usedExports.get(name) || new Set<string>();
+        users.add(user);
+        module.usedExports.set(name, users);
+
+        // Follow re-exports so that using a barrel's export marks the original declaration
+        for (const reExport of module.reExports) {
+            if (!reExport.resolvedPath) {
+                continue;
+            }
+            if (reExport.names) {
+                for (const [exportedName, sourceName] of reExport.names) {
+                    if (name === '*' || name === exportedName) {
+                        this.markUsed(reExport.resolvedPath, sourceName, user);
+                    }
+                }
+            } else if (name === '*' || (name !== 'default' && !module.exports.some(exp => exp.name === name))) {
+                this.markUsed(reExport.resolvedPath, name, user);
+            }
+        }
+    }
+
+    private resolve(specifier: string, containingFile: string): string | undefined {
+        const options = this.getCompilerOptions(path.dirname(containingFile));
+        const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, options, ts.sys);
+        if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+            return undefined;
+        }
+        const resolved = this.normalize(resolvedModule.resolvedFileName);
+        return this.modules.has(resolved) ? resolved : undefined;
+    }
+
+    private getCompilerOptions(directory: string): ts.CompilerOptions {
+        const cached = this.compilerOptionsCache.get(directory);
+        if (cached) {
+            return cached;
+        }
+
+        let options: ts.CompilerOptions = {};
+        const configPath = ts.findConfigFile(directory, ts.sys.fileExists, 'tsconfig.json')
+            || ts.findConfigFile(directory, ts.sys.fileExists, 'jsconfig.json');
+        if (configPath) {
+            const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+            if (!error) {
+                // Only the options matter here, skip enumerating the project's files
+                const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+                options = ts.parseJsonConfigFileContent(config, host, path.dirname(configPath)).options;
+            }
+        }
+
+        options = { ...options, allowJs: true };
+        if (options.moduleResolution === undefined && options.module === undefined) {
+            options.moduleResolution = ts.ModuleResolutionKind.Node10;
+        }
+        this.compilerOptionsCache.set(directory, options);
+        return options;
+    }
+
+    private getSourceCandidates(target: string, options: ts.CompilerOptions): string[] {
+        const bases = [target];
+        if (options.outDir && options.rootDir) {
+            const relativeToOut = path.relative(options.outDir, target);
+            if (!relativeToOut.startsWith('..') && !path.isAbsolute(relativeToOut)) {
+                bases.push(path.join(options.rootDir, relativeToOut));
+            }
+        }
+
+        const extensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+        return bases.flatMap(base => {
+            const withoutExtension = base.replace(/\.[cm]?[jt]sx?$/, '');
+            return [
+                base,
+                ...extensions.map(ext => withoutExtension + ext),
+                ...extensions.map(ext => path.join(base, `index${ext}`))
+            ].map(candidate => this.normalize(candidate));
+        });
+    }
+
+    private parseModule(file: ProjectFile, content: string): ModuleNode {
+        const sourceFile = ts.createSourceFile(file.filePath, content, ts.ScriptTarget.Latest, true, this.getScriptKind(file.filePath));
+        const module: ModuleNode = {
+            file,
+            exports: [],
+            imports: [],
+            reExports: [],
+            importedBy: new Set(),
+            usedExports: new Map(),
+            identifierCounts: new Map()
+        };
+
+        const position = (node: ts.Node) => {
+            const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+            return { line: line + 1, column: character + 1 };
+        };
+        const addExport = (name: string, node: ts.Node, localName?: string) => {
+            module.exports.push({ name, localName, ...position(node) });
+        };
+
+        for (const statement of sourceFile.statements) {
+            if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+                module.imports.push({
+                    specifier: statement.moduleSpecifier.text,
+                    names: this.getImportedNames(statement.importClause),
+                    line: position(statement).line
+                });
+            } else if (ts.isExportDeclaration(statement)) {
+                if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+                    const reExport: ModuleReExport = { specifier: statement.moduleSpecifier.text };
+                    if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+                        reExport.names = new Map(statement.exportClause.elements.map(element =>
+                            [element.name.text, (element.propertyName || element.name).text] as [string, string]
+                        ));
+                        statement.exportClause.elements.forEach(element => addExport(element.name.text, element));
+                    } else if (statement.exportClause && ts.isNamespaceExport(statement.exportClause)) {
+                        reExport.names = new Map([[statement.exportClause.name.text, '*']]);
+                        addExport(statement.exportClause.name.text, statement.exportClause);
+                    }
+                    module.reExports.push(reExport);
+                } else if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+                    statement.exportClause.elements.forEach(element =>
+                        addExport(element.name.text, element, (element.propertyName || element.name).text)
+                    );
+                }
+            } else if (ts.isExportAssignment(statement)) {
+                const localName = ts.isIdentifier(statement.expression) ? statement.expression.text : undefined;
+                addExport(statement.isExportEquals ? '*' : 'default', statement, localName);
+            } else if (ts.isImportEqualsDeclaration(statement)
+                && ts.isExternalModuleReference(statement.moduleReference)
+                && ts.isStringLiteral(statement.moduleReference.expression)) {
+                module.imports.push({ specifier: statement.moduleReference.expression.text, names: ['*'], line: position(statement).line });
+            } else if (this.hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+                this.collectDeclarationExports(statement, addExport);
+            }
+        }
+
+        const visit = (node: ts.Node): void => {
+            if (ts.isIdentifier(node) && !ts.isExportSpecifier(node.parent)) {
+                module.identifierCounts.set(node.text, (module.identifierCounts.get(node.text) || 0) + 1);
+            } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+                const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+                if (isRequire || node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+                    module.imports.push({ specifier: node.arguments[0].text, names: ['*'], line: position(node).line });
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+
+        // `export =` makes the whole module the export, nothing to report per name
+        module.exports = module.exports.filter(exp => exp.name !== '*');
+        return module;
+    }
+
+    private collectDeclarationExports(statement: ts.Statement, addExport: (name: string, node: ts.Node, localName?: string) => void): void {
+        const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                this.getBindingNames(declaration.name).forEach(identifier => addExport(identifier.text, identifier, identifier.text));
+            }
+            return;
+        }
+
+        if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)
+            || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) {
+            const nameNode = statement.name && ts.isIdentifier(statement.name) ? statement.name : undefined;
+            if (isDefault) {
+                addExport('default', nameNode || statement, nameNode?.text);
+            } else if (nameNode) {
+                addExport(nameNode.text, nameNode, nameNode.text);
+            }
+        }
+    }
+
+    private getImportedNames(importClause: ts.ImportClause | undefined): string[] {
+        if (!importClause) {
+            // Side-effect import, the module is used but none of its exports
+            return [];
+        }
+        const names: string[] = [];
+        if (importClause.name) {
+            names.push('default');
+        }
+        const bindings = importClause.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+            names.push('*');
+        } else if (bindings) {
+            bindings.elements.forEach(element => names.push((element.propertyName || element.name).text));
+        }
+        return names;
+    }
+
+    private getBindingNames(name: ts.BindingName): ts.Identifier[] {
+        if (ts.isIdentifier(name)) {
+            return [name];
+        }
+        return name.elements.flatMap(element =>
+            ts.isOmittedExpression(element) ? [] : this.getBindingNames(element.name)
+        );
+    }
+
+    private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+        return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+    }
+
+    private getScriptKind(filePath: string): ts.ScriptKind {
+        switch (path.extname(filePath).toLowerCase()) {
+            case '.tsx': return ts.ScriptKind.TSX;
+            case '.jsx': return ts.ScriptKind.JSX;
+            case '.js':
+            case '.mjs':
+            case '.cjs': return ts.ScriptKind.JS;
+            default: return ts.ScriptKind.TS;
+        }
+    }
+
+    private normalize(filePath: string): string {
+        return path.normalize(filePath);
+    }
+}
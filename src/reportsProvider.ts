@@ -8,17 +8,15 @@ export interface ReportInfo {
     timestamp: Date;
     size: number;
     isProjectReport: boolean;
+    folderName?: string;
 }
 
 export class ReportsProvider implements vscode.TreeDataProvider<ReportInfo> {
     private _onDidChangeTreeData: vscode.EventEmitter<ReportInfo | undefined | null | void> = new vscode.EventEmitter<ReportInfo | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<ReportInfo | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    private reportsPath: string;
-
-    constructor(reportsPath: string) {
-        this.reportsPath = reportsPath;
-    }
+    // One reports directory per workspace folder
+    constructor(private getReportsPaths: () => string[]) {}
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
@@ -28,7 +26,7 @@ export class ReportsProvider implements vscode.TreeDataProvider<ReportInfo> {
         const label = element.isProjectReport ? `📊 ${element.fileName}` : `📄 ${element.fileName}`;
         const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
         
-        item.description = `${this.formatDate(element.timestamp)} • ${this.formatFileSize(element.size)}`;
+        item.description = `${element.folderName ? `${element.folderName} • ` : ''}${this.formatDate(element.timestamp)} • ${this.formatFileSize(element.size)}`;
         item.tooltip = `File: ${element.filePath}\nCreated: ${element.timestamp.toLocaleString()}\nSize: ${this.formatFileSize(element.size)}`;
         item.command = {
             command: 'what-the-code.openReport',
@@ -54,20 +52,21 @@ export class ReportsProvider implements vscode.TreeDataProvider<ReportInfo> {
     }
 
     private async getReportFiles(): Promise<ReportInfo[]> {
-        if (!fs.existsSync(this.reportsPath)) {
+        const reportsPaths = this.getReportsPaths();
+        const reports = reportsPaths.flatMap(reportsPath => this.getReportFilesIn(reportsPath, reportsPaths.length > 1));
+        return reports.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()); // Sort by modified time, newest first
+    }
+
+    private getReportFilesIn(reportsPath: string, showFolder: boolean): ReportInfo[] {
+        if (!fs.existsSync(reportsPath)) {
             return [];
         }
 
-        const files = fs.readdirSync(this.reportsPath)
-            .filter((file: string) => file.endsWith('.html'))
-            .sort((a: string, b: string) => {
-                const statA = fs.statSync(path.join(this.reportsPath, a));
-                const statB = fs.statSync(path.join(this.reportsPath, b));
-                return statB.mtime.getTime() - statA.mtime.getTime(); // Sort by modified time, newest first
-            });
+        const files = fs.readdirSync(reportsPath)
+            .filter((file: string) => file.endsWith('.html'));
 
         return files.map((file: string) => {
-            const filePath = path.join(this.reportsPath, file);
+            const filePath = path.join(reportsPath, file);
             const stats = fs.statSync(filePath);
             const isProjectReport = file.startsWith('Project_');
             
@@ -99,7 +98,8 @@ export class ReportsProvider implements vscode.TreeDataProvider<ReportInfo> {
                 fileName,
                 timestamp: stats.mtime,
                 size: stats.size,
-                isProjectReport
+                isProjectReport,
+                folderName: showFolder ? path.basename(path.dirname(reportsPath)) : undefined
             };
         });
     }
@@ -0,0 +1,122 @@
+import { JsonSchema, LLMResponse } from './types';
+
+const SEARCH_RESULT_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		file: { type: 'string', description: 'Workspace-relative path of the file' },
+		line: { type: 'integer', minimum: 1, description: 'Line number shown before the "|" on the first line of the snippet' },
+		content: { type: 'string', description: 'Relevant code snippet copied from the file' },
+		explanation: { type: 'string', description: 'Brief explanation of relevance' },
+		confidence: { type: 'number', minimum: 0, maximum: 1 }
+	},
+	required: ['file', 'line', 'content', 'explanation']
+};
+
+/** Mirrors LLMResponse / SearchResult so providers can be asked for exactly what parseResults needs. */
+export const SEARCH_RESPONSE_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		results: { type: 'array', items: SEARCH_RESULT_SCHEMA }
+	},
+	required: ['results']
+};
+
+export const CHAT_RESPONSE_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		answer: { type: 'string', description: 'Short answer to the question' },
+		results: { type: 'array', items: SEARCH_RESULT_SCHEMA }
+	},
+	required: ['answer', 'results']
+};
+
+export function validateAgainstSchema(value: any, schema: JsonSchema, path: string = '$'): string[] {
+	switch (schema.type) {
+		case 'object': {
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				return [`${path} should be an object`];
+			}
+			const errors: string[] = [];
+			for (const key of schema.required || []) {
+				if (value[key] === undefined || value[key] === null) {
+					errors.push(`${path}.${key} is required`);
+				}
+			}
+			for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+				if (value[key] !== undefined && value[key] !== null) {
+					errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+				}
+			}
+			return errors;
+		}
+		case 'array':
+			if (!Array.isArray(value)) {
+				return [`${path} should be an array`];
+			}
+			return schema.items
+				? value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`))
+				: [];
+		case 'string':
+			return typeof value === 'string' ? [] : [`${path} should be a string`];
+		case 'integer':
+		case 'number': {
+			if (typeof value !== 'number' || Number.isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+				return [`${path} should be ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+			}
+			if (schema.minimum !== undefined && value < schema.minimum) {
+				return [`${path} should be at least ${schema.minimum}`];
+			}
+			if (schema.maximum !== undefined && value > schema.maximum) {
+				return [`${path} should be at most ${schema.maximum}`];
+			}
+			return [];
+		}
+		case 'boolean':
+			return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Gemini's responseSchema takes an OpenAPI subset with upper-case type names
+ * and rejects keywords it doesn't know.
+ */
+export function toGeminiSchema(schema: JsonSchema): any {
+	const converted: any = { type: schema.type.toUpperCase() };
+	if (schema.description) {
+		converted.description = schema.description;
+	}
+	if (schema.properties) {
+		converted.properties = Object.fromEntries(
+			Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+		);
+	}
+	if (schema.items) {
+		converted.items = toGeminiSchema(schema.items);
+	}
+	if (schema.required) {
+		converted.required = schema.required;
+	}
+	return converted;
+}
+
+export function extractJson(response: string): any {
+	const codeBlockMatch = response.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+	const jsonMatch = codeBlockMatch ? codeBlockMatch[1] : response.match(/\{[\s\S]*\}/)?.[0];
+	if (!jsonMatch) {
+		throw new Error('No JSON found in response');
+	}
+	return JSON.parse(jsonMatch);
+}
+
+export function parseSearchResponse(response: string): { value?: LLMResponse; errors: string[] } {
+	let parsed: any;
+	try {
+		parsed = extractJson(response);
+	} catch (error: any) {
+		return { errors: [error.message] };
+	}
+	const errors = validateAgainstSchema(parsed, SEARCH_RESPONSE_SCHEMA);
+	return errors.length > 0 ? { errors } : { value: parsed as LLMResponse, errors };
+}
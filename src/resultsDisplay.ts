@@ -3,8 +3,10 @@ import { SearchResult } from './types';
 
 export class ResultsDisplay {
 	private static webviewPanel: vscode.WebviewPanel | undefined;
+	private static results: SearchResult[] = [];
 
 	static async displayResults(query: string, results: SearchResult[]) {
+		this.results = results;
 		if (results.length === 0) {
 			vscode.window.showInformationMessage('No relevant code found for your query.');
 			return;
@@ -17,7 +19,25 @@ export class ResultsDisplay {
 		}
 	}
 
-	private static async showWebviewResults(query: string, results: SearchResult[]) {
+	static async beginStream(query: string) {
+		this.results = [];
+		await this.showWebviewResults(query, [], true);
+	}
+
+	static appendResult(result: SearchResult) {
+		this.results.push(result);
+		this.webviewPanel?.webview.postMessage({
+			command: 'appendResult',
+			html: this.generateResultHtml(result, this.results.length - 1),
+			count: this.results.length
+		});
+	}
+
+	static isVisible(): boolean {
+		return this.webviewPanel !== undefined;
+	}
+
+	private static async showWebviewResults(query: string, results: SearchResult[], streaming: boolean = false) {
 		if (this.webviewPanel) {
 			this.webviewPanel.reveal(vscode.ViewColumn.Beside);
 		} else {
@@ -34,25 +54,49 @@ export class ResultsDisplay {
 			this.webviewPanel.onDidDispose(() => {
 				this.webviewPanel = undefined;
 			});
+			this.webviewPanel.webview.onDidReceiveMessage(message => this.handleMessage(message));
 		}
 
-		this.webviewPanel.webview.html = this.generateWebviewContent(query, results);
+		this.webviewPanel.webview.html = this.generateWebviewContent(this.webviewPanel.webview, query, results, streaming);
 	}
 
-	private static generateWebviewContent(query: string, results: SearchResult[]): string {
-		const resultsHtml = results.map((result, index) => `
-			<div class="result-item" data-file="${result.file}" data-line="${result.line}">
+	static handleMessage(message: any, results: SearchResult[] = this.results) {
+		switch (message.command) {
+			case 'openFile':
+			case 'goToLine': {
+				const result = results.find(candidate => candidate.file === message.file && candidate.line === message.line);
+				vscode.commands.executeCommand('what-the-code.openResult', result || {
+					file: message.file,
+					line: message.line,
+					content: '',
+					explanation: ''
+				});
+				break;
+			}
+			case 'showMessage':
+				if (message.type === 'error') {
+					vscode.window.showErrorMessage(message.text);
+				} else {
+					vscode.window.showInformationMessage(message.text);
+				}
+				break;
+		}
+	}
+
+	static generateResultHtml(result: SearchResult, index: number): string {
+		return `
+			<div class="result-item" data-file="${this.escapeHtml(result.file)}" data-line="${result.line}">
 				<div class="result-header">
 					<div class="result-title">
 						<span class="result-number">${index + 1}</span>
-						<h3 class="file-name">${result.file}</h3>
+						<h3 class="file-name">${this.escapeHtml(result.file)}</h3>
 						<span class="confidence-badge ${this.getConfidenceBadgeClass(result.confidence || 0.8)}">
 							${Math.round((result.confidence || 0.8) * 100)}% match
 						</span>
 					</div>
 					<div class="line-info">
-						<span class="line-number">📍 Line ~${result.line}</span>
-						<button class="copy-btn" onclick="copyCode('${this.escapeForJs(result.content)}')" title="Copy code">
+						<span class="line-number">📍 ${this.describeLines(result)}</span>
+						<button class="copy-btn" data-action="copyCode" title="Copy code">
 							📋
 						</button>
 					</div>
@@ -60,17 +104,17 @@ export class ResultsDisplay {
 				
 				<div class="explanation-section">
 					<div class="explanation-label">💡 Why this matches:</div>
-					<div class="explanation">${result.explanation}</div>
+					<div class="explanation">${this.escapeHtml(result.explanation)}</div>
 				</div>
 				
 				<div class="code-section">
 					<div class="code-header">
 						<span class="code-label">📝 Code:</span>
 						<div class="code-actions">
-							<button onclick="openFile('${result.file}', ${result.line})" class="action-btn primary">
+							<button data-action="openFile" class="action-btn primary">
 								📂 Open File
 							</button>
-							<button onclick="goToLine('${result.file}', ${result.line})" class="action-btn">
+							<button data-action="goToLine" class="action-btn">
 								🔗 Go to Line
 							</button>
 						</div>
@@ -78,15 +122,84 @@ export class ResultsDisplay {
 					<pre class="code-block"><code class="language-javascript">${this.escapeHtml(result.content)}</code></pre>
 				</div>
 			</div>
-		`).join('');
+		`;
+	}
+
+	private static generateWebviewContent(webview: vscode.Webview, query: string, results: SearchResult[], streaming: boolean = false): string {
+		const nonce = this.getNonce();
+		const resultsHtml = results.map((result, index) => this.generateResultHtml(result, index)).join('');
 
 		return `<!DOCTYPE html>
 <html lang="en">
 <head>
 	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="${this.getContentSecurityPolicy(webview, nonce)}">
 	<meta name="viewport" content="width=device-width, initial-scale=1.0">
 	<title>Code Search Results</title>
 	<style>
+${this.getStyles()}
+	</style>
+</head>
+<body>
+	<div class="header">
+		<div class="query">${this.escapeHtml(query)}</div>
+		<div class="results-count">${streaming ? 'Searching...' : `Found ${results.length} relevant code sections`}</div>
+	</div>
+	
+	<div class="results">
+		${results.length > 0 ? resultsHtml : streaming ? `
+			<div class="empty-state">
+				<div class="empty-state-icon">⏳</div>
+				<h3>Waiting for the first result...</h3>
+			</div>
+		` : `
+			<div class="empty-state">
+				<div class="empty-state-icon">🔍</div>
+				<h3>No results found</h3>
+				<p>Try rephrasing your query or being more specific</p>
+			</div>
+		`}
+	</div>
+
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+
+		window.addEventListener('message', event => {
+			const message = event.data;
+			if (message.command === 'appendResult') {
+				const results = document.querySelector('.results');
+				results.querySelector('.empty-state')?.remove();
+				results.insertAdjacentHTML('beforeend', message.html);
+				document.querySelector('.results-count').textContent = 'Found ' + message.count + ' relevant code sections so far...';
+			}
+		});
+		
+		${this.getResultScripts()}
+		document.addEventListener('keydown', (e) => {
+			if (e.ctrlKey || e.metaKey) {
+				switch(e.key) {
+					case 'f':
+						e.preventDefault();
+						break;
+					case 'Enter':
+						e.preventDefault();
+						const firstResult = document.querySelector('.result-item');
+						if (firstResult) {
+							const file = firstResult.dataset.file;
+							const line = firstResult.dataset.line;
+							openFile(file, parseInt(line));
+						}
+						break;
+				}
+			}
+		});
+	</script>
+</body>
+</html>`;
+	}
+
+	static getStyles(): string {
+		return `
 		:root {
 			--primary-color: #007acc;
 			--success-color: #4caf50;
@@ -378,27 +491,11 @@ export class ResultsDisplay {
 		::-webkit-scrollbar-thumb:hover {
 			background: var(--primary-color);
 		}
-	</style>
-</head>
-<body>
-	<div class="header">
-		<div class="query">${this.escapeHtml(query)}</div>
-		<div class="results-count">Found ${results.length} relevant code sections</div>
-	</div>
-	
-	<div class="results">
-		${results.length > 0 ? resultsHtml : `
-			<div class="empty-state">
-				<div class="empty-state-icon">🔍</div>
-				<h3>No results found</h3>
-				<p>Try rephrasing your query or being more specific</p>
-			</div>
-		`}
-	</div>
+		`;
+	}
 
-	<script>
-		const vscode = acquireVsCodeApi();
-		
+	static getResultScripts(): string {
+		return `
 		function openFile(filePath, lineNumber) {
 			vscode.postMessage({
 				command: 'openFile',
@@ -415,10 +512,30 @@ export class ResultsDisplay {
 			});
 		}
 		
-		function copyCode(code) {
+		// Result buttons carry no inline handlers, the file and line come from the result's data attributes
+		document.addEventListener('click', event => {
+			const button = event.target.closest('[data-action]');
+			const item = button?.closest('.result-item');
+			if (!item) {
+				return;
+			}
+			const line = parseInt(item.dataset.line, 10);
+			switch (button.dataset.action) {
+				case 'openFile':
+					openFile(item.dataset.file, line);
+					break;
+				case 'goToLine':
+					goToLine(item.dataset.file, line);
+					break;
+				case 'copyCode':
+					copyCode(item.querySelector('.code-block code').textContent, button);
+					break;
+			}
+		});
+		
+		function copyCode(code, btn) {
 			navigator.clipboard.writeText(code).then(() => {
 			
-				const btn = event.target;
 				const originalText = btn.innerHTML;
 				btn.innerHTML = '✅';
 				btn.style.background = 'var(--success-color)';
@@ -440,29 +557,7 @@ export class ResultsDisplay {
 				});
 			});
 		}
-		
-			
-		document.addEventListener('keydown', (e) => {
-			if (e.ctrlKey || e.metaKey) {
-				switch(e.key) {
-					case 'f':
-						e.preventDefault();
-						break;
-					case 'Enter':
-						e.preventDefault();
-						const firstResult = document.querySelector('.result-item');
-						if (firstResult) {
-							const file = firstResult.dataset.file;
-							const line = firstResult.dataset.line;
-							openFile(file, parseInt(line));
-						}
-						break;
-				}
-			}
-		});
-	</script>
-</body>
-</html>`;
+		`;
 	}
 
 	private static getConfidenceBadgeClass(confidence: number): string {
@@ -471,14 +566,18 @@ export class ResultsDisplay {
 		return 'confidence-low';
 	}
 
-	private static escapeForJs(text: string): string {
-		return text
-			.replace(/\\/g, '\\\\')
-			.replace(/'/g, "\\'")
-			.replace(/"/g, '\\"')
-			.replace(/\n/g, '\\n')
-			.replace(/\r/g, '\\r')
-			.replace(/\t/g, '\\t');
+	/** Only scripts carrying the nonce run, so markup in results or explanations can't execute anything. */
+	static getContentSecurityPolicy(webview: vscode.Webview, nonce: string): string {
+		return `default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+	}
+
+	static getNonce(): string {
+		const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+		let nonce = '';
+		for (let i = 0; i < 32; i++) {
+			nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+		}
+		return nonce;
 	}
 
 	private static async showMarkdownResults(query: string, results: SearchResult[]) {
@@ -497,7 +596,7 @@ export class ResultsDisplay {
 
 		results.forEach((result, index) => {
 			content += `## ${index + 1}. \`${result.file}\`\n\n`;
-			content += `**Line ~${result.line}**\n\n`;
+			content += `**${this.describeLines(result)}**\n\n`;
 			content += `**Explanation:** ${result.explanation}\n\n`;
 			content += `**Code:**\n\`\`\`javascript\n${result.content}\n\`\`\`\n\n`;
 			
@@ -511,6 +610,14 @@ export class ResultsDisplay {
 		return content;
 	}
 
+	static describeLines(result: SearchResult): string {
+		// Unverified results keep the model's guess, so mark the line as approximate
+		const approximate = result.verified === false ? '~' : '';
+		return result.endLine && result.endLine > result.line
+			? `Lines ${approximate}${result.line}-${result.endLine}`
+			: `Line ${approximate}${result.line}`;
+	}
+
 	private static escapeHtml(text: string): string {
 		return text
 			.replace(/&/g, '&amp;')
@@ -523,7 +630,7 @@ export class ResultsDisplay {
 	static async showQuickPick(results: SearchResult[]): Promise<SearchResult | undefined> {
 		const items = results.map((result, index) => ({
 			label: `${index + 1}. ${result.file}`,
-			description: `Line ~${result.line}`,
+			description: this.describeLines(result),
 			detail: result.explanation,
 			result: result
 		}));
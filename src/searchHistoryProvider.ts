@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { SearchHistoryEntry, SearchResult } from './types';
+import { SearchResultItem } from './searchResultsProvider';
+
+export interface SearchResultDiff {
+	added: SearchResult[];
+	removed: SearchResult[];
+	moved: { before: SearchResult; after: SearchResult }[];
+	unchanged: SearchResult[];
+}
+
+export class SearchHistoryItem extends vscode.TreeItem {
+	constructor(public readonly entry: SearchHistoryEntry) {
+		super(entry.query, entry.results.length > 0
+			? vscode.TreeItemCollapsibleState.Collapsed
+			: vscode.TreeItemCollapsibleState.None);
+
+		const when = new Date(entry.timestamp).toLocaleString();
+		const answeredBy = [entry.provider, entry.model].filter(part => part).join(' / ');
+		this.description = `${entry.results.length} result(s) · ${when}`;
+		this.tooltip = `${entry.query}\n\n${when}${answeredBy ? `\nAnswered by: ${answeredBy}` : ''}\n${entry.results.length} result(s)${entry.pinned ? '\n📌 Pinned' : ''}`;
+		this.iconPath = new vscode.ThemeIcon(entry.pinned ? 'pinned' : 'history');
+		this.contextValue = entry.pinned ? 'searchHistoryEntryPinned' : 'searchHistoryEntry';
+		this.id = entry.id;
+	}
+}
+
+export const SEARCH_HISTORY_SCHEME = 'what-the-code-history';
+
+export class SearchHistoryProvider implements vscode.TreeDataProvider<SearchHistoryItem | SearchResultItem>, vscode.TextDocumentContentProvider {
+	private _onDidChangeTreeData: vscode.EventEmitter<SearchHistoryItem | SearchResultItem | undefined | null | void> = new vscode.EventEmitter<SearchHistoryItem | SearchResultItem | undefined | null | void>();
+	readonly onDidChangeTreeData: vscode.Event<SearchHistoryItem | SearchResultItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+	private static readonly STORAGE_KEY = 'whatTheCode.searchHistory';
+	private static readonly MAX_UNPINNED = 50;
+
+	constructor(private state: vscode.Memento) {}
+
+	refresh(): void {
+		this._onDidChangeTreeData.fire();
+	}
+
+	getEntries(): SearchHistoryEntry[] {
+		return this.state.get<SearchHistoryEntry[]>(SearchHistoryProvider.STORAGE_KEY, []);
+	}
+
+	getEntry(id: string): SearchHistoryEntry | undefined {
+		return this.getEntries().find(entry => entry.id === id);
+	}
+
+	async addEntry(query: string, results: SearchResult[], provider?: string, model?: string): Promise<SearchHistoryEntry> {
+		const entry: SearchHistoryEntry = {
+			id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+			query,
+			timestamp: Date.now(),
+			provider,
+			model,
+			results
+		};
+
+		// Pinned entries survive the cap, only the oldest unpinned ones are dropped
+		const entries = [entry, ...this.getEntries()];
+		let unpinned = 0;
+		await this.save(entries.filter(candidate => candidate.pinned || ++unpinned <= SearchHistoryProvider.MAX_UNPINNED));
+		return entry;
+	}
+
+	async setPinned(id: string, pinned: boolean): Promise<void> {
+		await this.save(this.getEntries().map(entry => entry.id === id ? { ...entry, pinned } : entry));
+	}
+
+	async deleteEntry(id: string): Promise<void> {
+		await this.save(this.getEntries().filter(entry => entry.id !== id));
+	}
+
+	async clearUnpinned(): Promise<void> {
+		await this.save(this.getEntries().filter(entry => entry.pinned));
+	}
+
+	findPreviousRun(entry: SearchHistoryEntry): SearchHistoryEntry | undefined {
+		const query = this.normalizeQuery(entry.query);
+		return this.getEntries()
+			.filter(candidate => candidate.id !== entry.id &&
+				candidate.timestamp < entry.timestamp &&
+				this.normalizeQuery(candidate.query) === query)
+			.sort((a, b) => b.timestamp - a.timestamp)[0];
+	}
+
+	static diffResults(before: SearchResult[], after: SearchResult[]): SearchResultDiff {
+		const diff: SearchResultDiff = { added: [], removed: [], moved: [], unchanged: [] };
+		const remaining = [...before];
+
+		for (const result of after) {
+			const sameSpot = remaining.findIndex(candidate => candidate.file === result.file && candidate.line === result.line);
+			if (sameSpot >= 0) {
+				diff.unchanged.push(result);
+				remaining.splice(sameSpot, 1);
+				continue;
+			}
+			// The same code found again after edits above it shifted its line
+			const sameCode = remaining.findIndex(candidate => candidate.file === result.file &&
+				candidate.content.trim() === result.content.trim());
+			if (sameCode >= 0) {
+				diff.moved.push({ before: remaining[sameCode], after: result });
+				remaining.splice(sameCode, 1);
+				continue;
+			}
+			diff.added.push(result);
+		}
+
+		diff.removed = remaining;
+		return diff;
+	}
+
+	static getDiffUri(entry: SearchHistoryEntry): vscode.Uri {
+		const when = new Date(entry.timestamp).toISOString().replace(/[:.]/g, '-');
+		return vscode.Uri.from({ scheme: SEARCH_HISTORY_SCHEME, path: `/${when}.md`, query: entry.id });
+	}
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		const entry = this.getEntry(uri.query);
+		return entry ? SearchHistoryProvider.toMarkdown(entry, true) : 'This search is no longer in the history.';
+	}
+
+	static toMarkdown(entry: SearchHistoryEntry, sortByLocation: boolean = false): string {
+		// Diffs read better when results are in file order rather than ranking order
+		const results = sortByLocation
+			? [...entry.results].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+			: entry.results;
+		const answeredBy = [entry.provider, entry.model].filter(part => part).join(' / ');
+
+		let content = `# 🔍 ${entry.query}\n\n`;
+		content += `**Searched:** ${new Date(entry.timestamp).toLocaleString()}\n\n`;
+		if (answeredBy) {
+			content += `**Answered by:** ${answeredBy}\n\n`;
+		}
+		content += `**Results:** ${entry.results.length}\n\n`;
+
+		results.forEach(result => {
+			content += `## ${vscode.workspace.asRelativePath(result.file)}:${result.line}\n\n`;
+			content += `${result.explanation}\n\n`;
+			content += `\`\`\`\n${result.content}\n\`\`\`\n\n`;
+		});
+		return content;
+	}
+
+	getTreeItem(element: SearchHistoryItem | SearchResultItem): vscode.TreeItem {
+		return element;
+	}
+
+	getChildren(element?: SearchHistoryItem | SearchResultItem): Thenable<(SearchHistoryItem | SearchResultItem)[]> {
+		if (!element) {
+			const entries = [...this.getEntries()].sort((a, b) =>
+				Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+			return Promise.resolve(entries.map(entry => new SearchHistoryItem(entry)));
+		}
+		if (element instanceof SearchHistoryItem) {
+			return Promise.resolve(element.entry.results.map(result =>
+				new SearchResultItem(result, vscode.TreeItemCollapsibleState.None)));
+		}
+		return Promise.resolve([]);
+	}
+
+	private normalizeQuery(query: string): string {
+		return query.trim().toLowerCase().replace(/\s+/g, ' ');
+	}
+
+	private async save(entries: SearchHistoryEntry[]): Promise<void> {
+		await this.state.update(SearchHistoryProvider.STORAGE_KEY, entries);
+		this.refresh();
+	}
+
+	dispose(): void {
+		this._onDidChangeTreeData.dispose();
+	}
+}
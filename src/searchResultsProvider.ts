@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { SearchResult } from './types';
+import { ResultsDisplay } from './resultsDisplay';
 
 export class SearchResultItem extends vscode.TreeItem {
 	constructor(
@@ -13,16 +14,23 @@ export class SearchResultItem extends vscode.TreeItem {
 		);
 
 		if (!isGroup) {
-			this.tooltip = `${result.explanation}\n\nFile: ${vscode.workspace.asRelativePath(result.file)}\nLine: ${result.line}\nContent: ${result.content.substring(0, 100)}...\n\nClick to open file at line ${result.line}`;
-			this.description = `Line ${result.line}`;
+			const answeredBy = result.provider ? `\nAnswered by: ${result.provider}` : '';
+			const unverified = result.verified === false ? '\n\n⚠️ This snippet was not found in the file - the AI may have made it up' : '';
+			const lines = ResultsDisplay.describeLines(result);
+			this.tooltip = `${result.explanation}\n\nFile: ${vscode.workspace.asRelativePath(result.file)}\n${lines}${answeredBy}\nContent: ${result.content.substring(0, 100)}...${unverified}\n\nClick to open file at line ${result.line}`;
+			this.description = [result.verified === false ? '⚠️ unverified' : '', lines, result.provider || '']
+				.filter(part => part.length > 0)
+				.join(' · ');
 			this.command = {
 				command: 'what-the-code.openResult',
 				title: 'Open Result',
 				arguments: [result]
 			};
-			this.iconPath = new vscode.ThemeIcon('symbol-snippet');
+			this.iconPath = new vscode.ThemeIcon(result.verified === false ? 'warning' : 'symbol-snippet');
 		} else {
-			this.tooltip = `File: ${vscode.workspace.asRelativePath(result.file)}`;
+			this.tooltip = result.provider
+				? `File: ${vscode.workspace.asRelativePath(result.file)}\nAnswered by: ${result.provider}`
+				: `File: ${vscode.workspace.asRelativePath(result.file)}`;
 			this.iconPath = new vscode.ThemeIcon('file-code');
 			this.contextValue = 'searchResultFile';
 		}
@@ -48,6 +56,15 @@ export class SearchResultsProvider implements vscode.TreeDataProvider<SearchResu
 		this.refresh();
 	}
 
+	beginResults(query: string): void {
+		this.updateResults(query, []);
+	}
+
+	addResult(result: SearchResult): void {
+		this.results = [...this.results, result];
+		this.refresh();
+	}
+
 	clearResults(): void {
 		this.results = [];
 		this.query = '';
@@ -86,7 +103,8 @@ export class SearchResultsProvider implements vscode.TreeDataProvider<SearchResu
 					line: results[0].line,
 					content: `${results.length} result(s) found`,
 					explanation: `${results.length} matches found (${lineRange})`,
-					confidence: results[0].confidence
+					confidence: results[0].confidence,
+					provider: results[0].provider
 				};
 
 				const fileItem = new SearchResultItem(
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { WorkspaceScope } from './workspaceScope';
 
 export interface CodeSnapshot {
     id: string;
@@ -16,44 +17,49 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
     readonly onDidChangeTreeData: vscode.Event<CodeSnapshot | string | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private snapshots: CodeSnapshot[] = [];
-    private snapshotsDir: string = '';
+    // Folder name each snapshot was loaded from, used to group the tree in multi-root workspaces
+    private snapshotFolders: Map<string, string> = new Map();
+    private scopeListener: vscode.Disposable;
 
-    constructor(private context: vscode.ExtensionContext) {
-        this.initializeSnapshotsDirectory();
+    constructor(private context: vscode.ExtensionContext, private scope: WorkspaceScope) {
         this.loadSnapshots();
+        this.scopeListener = scope.onDidChange(() => {
+            this.loadSnapshots();
+            this._onDidChangeTreeData.fire();
+        });
     }
 
-    private initializeSnapshotsDirectory() {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (workspaceFolder) {
-            this.snapshotsDir = path.join(workspaceFolder.uri.fsPath, '.ai-snapshots');
-            if (!fs.existsSync(this.snapshotsDir)) {
-                fs.mkdirSync(this.snapshotsDir, { recursive: true });
-            }
-        }
+    // Snapshots live in the .ai-snapshots folder of the workspace folder that owns the file
+    private getSnapshotsDir(filePath: string): string | undefined {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))
+            || vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, '.ai-snapshots') : undefined;
     }
 
     private loadSnapshots() {
-        try {
-            if (fs.existsSync(this.snapshotsDir)) {
-                const files = fs.readdirSync(this.snapshotsDir)
-                    .filter(f => f.endsWith('.json'))
-                    .sort((a, b) => {
-                        const statA = fs.statSync(path.join(this.snapshotsDir, a));
-                        const statB = fs.statSync(path.join(this.snapshotsDir, b));
-                        return statB.mtime.getTime() - statA.mtime.getTime();
-                    });
+        this.snapshots = [];
+        this.snapshotFolders.clear();
 
-                this.snapshots = files.map(file => {
-                    const content = fs.readFileSync(path.join(this.snapshotsDir, file), 'utf8');
+        for (const folder of this.scope.getFolders()) {
+            const snapshotsDir = path.join(folder.uri.fsPath, '.ai-snapshots');
+            try {
+                if (!fs.existsSync(snapshotsDir)) {
+                    continue;
+                }
+                const files = fs.readdirSync(snapshotsDir).filter(f => f.endsWith('.json'));
+                for (const file of files) {
+                    const content = fs.readFileSync(path.join(snapshotsDir, file), 'utf8');
                     const snapshot = JSON.parse(content);
                     snapshot.timestamp = new Date(snapshot.timestamp);
-                    return snapshot;
-                });
+                    this.snapshots.push(snapshot);
+                    this.snapshotFolders.set(snapshot.id, folder.name);
+                }
+            } catch (error) {
+                console.error(`Error loading snapshots from ${snapshotsDir}:`, error);
             }
-        } catch (error) {
-            console.error('Error loading snapshots:', error);
         }
+
+        this.snapshots.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     }
 
     async saveSnapshot(): Promise<void> {
@@ -73,11 +79,25 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
             language: document.languageId
         };
 
+        const snapshotsDir = this.getSnapshotsDir(snapshot.filePath);
+        if (!snapshotsDir) {
+            vscode.window.showWarningMessage('Open a workspace folder to save snapshots');
+            return;
+        }
+
         try {
-            const snapshotFile = path.join(this.snapshotsDir, `${snapshot.id}.json`);
+            if (!fs.existsSync(snapshotsDir)) {
+                fs.mkdirSync(snapshotsDir, { recursive: true });
+            }
+            const snapshotFile = path.join(snapshotsDir, `${snapshot.id}.json`);
             fs.writeFileSync(snapshotFile, JSON.stringify(snapshot, null, 2));
 
-            this.snapshots.unshift(snapshot);
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(snapshot.filePath))
+                || vscode.workspace.workspaceFolders?.[0];
+            if (workspaceFolder && this.scope.getFolders().some(folder => folder.uri.toString() === workspaceFolder.uri.toString())) {
+                this.snapshots.unshift(snapshot);
+                this.snapshotFolders.set(snapshot.id, workspaceFolder.name);
+            }
 
             this._onDidChangeTreeData.fire();
 
@@ -98,7 +118,8 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
             return {
                 label: element,
                 collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
-                contextValue: 'header'
+                contextValue: 'header',
+                iconPath: new vscode.ThemeIcon('root-folder')
             };
         }
 
@@ -122,8 +143,17 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
             if (this.snapshots.length === 0) {
                 return Promise.resolve([]);
             }
+            if (this.scope.getFolders().length > 1) {
+                const folderNames = this.scope.getFolders()
+                    .map(folder => folder.name)
+                    .filter(name => this.snapshots.some(snapshot => this.snapshotFolders.get(snapshot.id) === name));
+                return Promise.resolve(folderNames);
+            }
             return Promise.resolve(this.snapshots);
         }
+        if (typeof element === 'string') {
+            return Promise.resolve(this.snapshots.filter(snapshot => this.snapshotFolders.get(snapshot.id) === element));
+        }
         return Promise.resolve([]);
     }
 
@@ -164,8 +194,9 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
 
     async deleteSnapshot(snapshot: CodeSnapshot): Promise<void> {
         try {
-            const snapshotFile = path.join(this.snapshotsDir, `${snapshot.id}.json`);
-            if (fs.existsSync(snapshotFile)) {
+            const snapshotsDir = this.getSnapshotsDir(snapshot.filePath);
+            const snapshotFile = snapshotsDir ? path.join(snapshotsDir, `${snapshot.id}.json`) : undefined;
+            if (snapshotFile && fs.existsSync(snapshotFile)) {
                 fs.unlinkSync(snapshotFile);
             }
 
@@ -186,17 +217,23 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
     clearAllSnapshots(): void {
         try {
             
-            if (fs.existsSync(this.snapshotsDir)) {
-                const files = fs.readdirSync(this.snapshotsDir).filter(f => f.endsWith('.json'));
-                files.forEach(file => {
-                    fs.unlinkSync(path.join(this.snapshotsDir, file));
-                });
+            for (const folder of this.scope.getFolders()) {
+                const snapshotsDir = path.join(folder.uri.fsPath, '.ai-snapshots');
+                if (fs.existsSync(snapshotsDir)) {
+                    const files = fs.readdirSync(snapshotsDir).filter(f => f.endsWith('.json'));
+                    files.forEach(file => {
+                        fs.unlinkSync(path.join(snapshotsDir, file));
+                    });
+                }
             }
 
             
             this.snapshots = [];
+            this.snapshotFolders.clear();
             this._onDidChangeTreeData.fire();
-            vscode.window.showInformationMessage('All snapshots cleared');
+            vscode.window.showInformationMessage(this.scope.isAllFolders()
+                ? 'All snapshots cleared'
+                : `All snapshots in ${this.scope.getLabel()} cleared`);
         } catch (error) {
             console.error('Error clearing snapshots:', error);
             vscode.window.showErrorMessage(`Failed to clear snapshots: ${error}`);
@@ -268,6 +305,7 @@ export class SnapshotProvider implements vscode.TreeDataProvider<CodeSnapshot |
     }
 
     dispose(): void {
+        this.scopeListener.dispose();
         this._onDidChangeTreeData.dispose();
     }
 }
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import { SearchResult } from './types';
+
+export interface SnippetLocation {
+	line: number;
+	endLine: number;
+	column: number;
+	endColumn: number;
+	score: number;
+}
+
+interface IndexedLine {
+	index: number;
+	text: string;
+	normalized: string;
+}
+
+const MATCH_THRESHOLD = 0.6;
+
+export class SnippetLocator {
+	private fileCache: Map<string, IndexedLine[] | null> = new Map();
+
+	/**
+	 * Finds where a snippet returned by the model really lives in the file.
+	 * Whitespace differences, copied line-number prefixes and small edits are tolerated;
+	 * when the same code appears more than once, the occurrence closest to hintLine wins.
+	 */
+	static locate(fileText: string, snippet: string, hintLine: number = 1): SnippetLocation | undefined {
+		return SnippetLocator.locateInLines(SnippetLocator.indexLines(fileText), snippet, hintLine);
+	}
+
+	resolve(result: SearchResult): SearchResult {
+		const lines = this.readLines(result.file);
+		const location = lines ? SnippetLocator.locateInLines(lines, result.content, result.line) : undefined;
+		if (!location) {
+			return { ...result, verified: false };
+		}
+		return {
+			...result,
+			line: location.line,
+			endLine: location.endLine,
+			column: location.column,
+			endColumn: location.endColumn,
+			verified: true
+		};
+	}
+
+	private readLines(filePath: string): IndexedLine[] | null {
+		if (!this.fileCache.has(filePath)) {
+			try {
+				this.fileCache.set(filePath, SnippetLocator.indexLines(fs.readFileSync(filePath, 'utf8')));
+			} catch (error) {
+				this.fileCache.set(filePath, null);
+			}
+		}
+		return this.fileCache.get(filePath)!;
+	}
+
+	private static locateInLines(fileLines: IndexedLine[], snippet: string, hintLine: number): SnippetLocation | undefined {
+		const snippetLines = snippet
+			.split('\n')
+			// The prompt numbers every line as "  12 | code" and models often copy that prefix back
+			.map(line => line.replace(/^\s*\d+\s*\|\s?/, ''))
+			.map(line => normalize(line))
+			.filter(line => line.length > 0 && line !== '...');
+		const candidates = fileLines.filter(line => line.normalized.length > 0);
+		if (snippetLines.length === 0 || candidates.length === 0) {
+			return undefined;
+		}
+
+		const windowSize = Math.min(snippetLines.length, candidates.length);
+		let best: { start: number; score: number } | undefined;
+
+		for (let start = 0; start + windowSize <= candidates.length; start++) {
+			// Cheap check on the first line before scoring the whole window
+			const first = similarity(snippetLines[0], candidates[start].normalized);
+			if (first < MATCH_THRESHOLD / 2) {
+				continue;
+			}
+			let total = first;
+			for (let offset = 1; offset < windowSize; offset++) {
+				total += similarity(snippetLines[offset], candidates[start + offset].normalized);
+			}
+			const score = total / windowSize;
+			if (!best || score > best.score + 1e-6 ||
+				(Math.abs(score - best.score) <= 1e-6 &&
+					Math.abs(candidates[start].index + 1 - hintLine) < Math.abs(candidates[best.start].index + 1 - hintLine))) {
+				best = { start, score };
+			}
+		}
+
+		if (!best || best.score < MATCH_THRESHOLD) {
+			return undefined;
+		}
+
+		const firstLine = candidates[best.start];
+		const lastLine = candidates[best.start + windowSize - 1];
+		const firstText = snippet.trim().split('\n')[0].replace(/^\s*\d+\s*\|\s?/, '').trim();
+		const column = firstLine.text.indexOf(firstText);
+
+		return {
+			line: firstLine.index + 1,
+			endLine: lastLine.index + 1,
+			column: column >= 0 ? column : firstLine.text.length - firstLine.text.trimStart().length,
+			endColumn: lastLine.text.trimEnd().length,
+			score: best.score
+		};
+	}
+
+	private static indexLines(text: string): IndexedLine[] {
+		return text.split('\n').map((line, index) => {
+			const clean = line.replace(/\r$/, '');
+			return { index, text: clean, normalized: normalize(clean) };
+		});
+	}
+}
+
+function normalize(line: string): string {
+	return line.trim().replace(/\s+/g, ' ');
+}
+
+function similarity(a: string, b: string): number {
+	if (a === b) {
+		return 1;
+	}
+	if (a.length < 2 || b.length < 2) {
+		return 0;
+	}
+	// Dice coefficient over character bigrams
+	const bigrams = new Map<string, number>();
+	for (let i = 0; i < a.length - 1; i++) {
+		const bigram = a.substring(i, i + 2);
+		bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+	}
+	let overlap = 0;
+	for (let i = 0; i < b.length - 1; i++) {
+		const bigram = b.substring(i, i + 2);
+		const count = bigrams.get(bigram) || 0;
+		if (count > 0) {
+			bigrams.set(bigram, count - 1);
+			overlap++;
+		}
+	}
+	return (2 * overlap) / (a.length + b.length - 2);
+}
@@ -0,0 +1,70 @@
+/**
+ * Pulls complete entries out of a `{"results": [...]}` answer while it is still being streamed,
+ * so each result can be shown as soon as its closing brace arrives.
+ */
+export class StreamingResultParser {
+	private buffer = '';
+	private position = 0;
+	private depth = 0;
+	private inString = false;
+	private escaped = false;
+	private resultsDepth = -1;
+	private objectStart = -1;
+
+	feed(chunk: string): any[] {
+		this.buffer += chunk;
+		const completed: any[] = [];
+
+		for (; this.position < this.buffer.length; this.position++) {
+			const char = this.buffer[this.position];
+
+			if (this.inString) {
+				if (this.escaped) {
+					this.escaped = false;
+				} else if (char === '\\') {
+					this.escaped = true;
+				} else if (char === '"') {
+					this.inString = false;
+				}
+				continue;
+			}
+
+			if (char === '"') {
+				this.inString = true;
+			} else if (char === '{' || char === '[') {
+				this.depth++;
+				if (char === '[' && this.resultsDepth < 0 && this.isResultsArray()) {
+					this.resultsDepth = this.depth;
+				} else if (char === '{' && this.depth === this.resultsDepth + 1 && this.resultsDepth >= 0) {
+					this.objectStart = this.position;
+				}
+			} else if (char === '}' || char === ']') {
+				if (char === '}' && this.depth === this.resultsDepth + 1 && this.objectStart >= 0) {
+					const parsed = this.tryParse(this.buffer.substring(this.objectStart, this.position + 1));
+					if (parsed) {
+						completed.push(parsed);
+					}
+					this.objectStart = -1;
+				} else if (char === ']' && this.depth === this.resultsDepth) {
+					this.resultsDepth = -1;
+				}
+				this.depth--;
+			}
+		}
+
+		return completed;
+	}
+
+	private isResultsArray(): boolean {
+		const before = this.buffer.substring(Math.max(0, this.position - 40), this.position);
+		return /"results"\s*:\s*$/.test(before);
+	}
+
+	private tryParse(text: string): any | undefined {
+		try {
+			return JSON.parse(text);
+		} catch (error) {
+			return undefined;
+		}
+	}
+}
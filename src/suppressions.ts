@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const ACKNOWLEDGED_FILE = 'whatthecode.acknowledged.json';
+
+export interface AcknowledgedFinding {
+    // Path relative to the workspace folder, with forward slashes
+    file: string;
+    type: string;
+    name: string;
+}
+
+interface SuppressionComments {
+    // undefined: nothing suppressed, empty set: every type
+    file?: Set<string>;
+    lines: Map<number, Set<string>>;
+}
+
+const SUPPRESSION_COMMENT = /(?:\/\/|\/\*|<!--)\s*wtc-ignore-(next-line|file)\b([^\n]*)/;
+
+const acknowledgedCache = new Map<string, { mtimeMs: number; keys: Set<string> }>();
+
+/**
+ * Drops findings silenced by a `// wtc-ignore-next-line [type ...]` comment, a
+ * `wtc-ignore-file [type ...]` comment anywhere in the file, or an entry in the
+ * folder's whatthecode.acknowledged.json. Acknowledged entries are keyed by file, type
+ * and name rather than line, so they survive edits elsewhere in the file.
+ */
+export function filterSuppressed<T extends { line: number; type: string }>(
+    findings: T[],
+    content: string,
+    filePath: string,
+    getName: (finding: T) => string
+): T[] {
+    if (findings.length === 0) {
+        return findings;
+    }
+    const comments = parseSuppressionComments(content);
+    return findings.filter(finding =>
+        !matchesType(comments.file, finding.type)
+        && !matchesType(comments.lines.get(finding.line), finding.type)
+        && !isAcknowledged(filePath, finding.type, getName(finding))
+    );
+}
+
+/** Quality findings have no name of their own, their trimmed source line stands in for one. */
+export function getLineName(content: string, line: number): string {
+    return (content.split('\n')[line - 1] || '').trim();
+}
+
+export function isAcknowledged(filePath: string, type: string, name: string): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!folder) {
+        return false;
+    }
+    return loadAcknowledged(folder.uri.fsPath).has(getKey(toFolderPath(folder, filePath), type, name));
+}
+
+export async function acknowledgeFinding(filePath: string, type: string, name: string): Promise<boolean> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!folder) {
+        return false;
+    }
+
+    const acknowledgedPath = path.join(folder.uri.fsPath, ACKNOWLEDGED_FILE);
+    const findings = readAcknowledged(acknowledgedPath);
+    const finding: AcknowledgedFinding = { file: toFolderPath(folder, filePath), type, name };
+    if (!findings.some(other => getKey(other.file, other.type, other.name) === getKey(finding.file, type, name))) {
+        findings.push(finding);
+        findings.sort((a, b) => a.file.localeCompare(b.file) || a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+        await fs.promises.writeFile(acknowledgedPath, JSON.stringify({ acknowledged: findings }, null, 2) + '\n', 'utf8');
+        acknowledgedCache.delete(folder.uri.fsPath);
+    }
+    return true;
+}
+
+function parseSuppressionComments(content: string): SuppressionComments {
+    const comments: SuppressionComments = { lines: new Map() };
+    if (!content.includes('wtc-ignore-')) {
+        return comments;
+    }
+
+    content.split('\n').forEach((line, index) => {
+        const match = line.match(SUPPRESSION_COMMENT);
+        if (!match) {
+            return;
+        }
+        const types = new Set(match[2].replace(/\*\/|-->/g, ' ').split(/[\s,]+/).filter(type => /^[a-z][a-z-]*$/.test(type)));
+        if (match[1] === 'file') {
+            // A bare wtc-ignore-file wins over ones listing types
+            comments.file = comments.file?.size === 0 || types.size === 0 ? new Set() : new Set([...comments.file || [], ...types]);
+        } else {
+            // index is 0-based, so the next line's 1-based number is index + 2
+            comments.lines.set(index + 2, types);
+        }
+    });
+    return comments;
+}
+
+function matchesType(types: Set<string> | undefined, type: string): boolean {
+    return !!types && (types.size === 0 || types.has(type));
+}
+
+function loadAcknowledged(folderPath: string): Set<string> {
+    const acknowledgedPath = path.join(folderPath, ACKNOWLEDGED_FILE);
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(acknowledgedPath).mtimeMs;
+    } catch {
+        return new Set();
+    }
+
+    const cached = acknowledgedCache.get(folderPath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.keys;
+    }
+    const keys = new Set(readAcknowledged(acknowledgedPath).map(finding => getKey(finding.file, finding.type, finding.name)));
+    acknowledgedCache.set(folderPath, { mtimeMs, keys });
+    return keys;
+}
+
+function readAcknowledged(acknowledgedPath: string): AcknowledgedFinding[] {
+    try {
+        const data = JSON.parse(fs.readFileSync(acknowledgedPath, 'utf8'));
+        return (Array.isArray(data?.acknowledged) ? data.acknowledged : []).filter((finding: any) =>
+            typeof finding?.file === 'string' && typeof finding.type === 'string' && typeof finding.name === 'string'
+        );
+    } catch (error) {
+        if (fs.existsSync(acknowledgedPath)) {
+            console.warn(`Could not parse ${acknowledgedPath}:`, error);
+        }
+        return [];
+    }
+}
+
+function toFolderPath(folder: vscode.WorkspaceFolder, filePath: string): string {
+    return path.relative(folder.uri.fsPath, filePath).split(path.sep).join('/');
+}
+
+function getKey(file: string, type: string, name: string): string {
+    return `${file}|${type}|${name}`;
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { FileAnalysisReport } from './htmlReportGenerator';
+import { WorkspaceScope } from './workspaceScope';
 
 export interface ContributorStats {
     name: string;
@@ -28,23 +29,19 @@ export interface TeamLeaderboardData {
 
 export class TeamLeaderboard {
     private outputChannel: vscode.OutputChannel;
-    private leaderboardPath: string;
     private readonly LEADERBOARD_FILE = 'team-leaderboard.json';
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('What-The-Code Team');
-        
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const reportsBasePath = workspaceFolder 
-            ? path.join(workspaceFolder.uri.fsPath)
-            : path.join(require('os').homedir());
-            
-        this.leaderboardPath = path.join(reportsBasePath, '.what-the-code-reports', this.LEADERBOARD_FILE);
-        this.ensureLeaderboardDirectory();
     }
 
-    private ensureLeaderboardDirectory(): void {
-        const dir = path.dirname(this.leaderboardPath);
+    // Stats are kept next to the reports of each workspace folder
+    private getLeaderboardPath(folder?: vscode.WorkspaceFolder): string {
+        return path.join(WorkspaceScope.getReportsDirectory(folder), this.LEADERBOARD_FILE);
+    }
+
+    private ensureLeaderboardDirectory(folder?: vscode.WorkspaceFolder): void {
+        const dir = path.dirname(this.getLeaderboardPath(folder));
         if (!fs.existsSync(dir)) {
             fs.mkdirSync(dir, { recursive: true });
         }
@@ -102,10 +99,11 @@ export class TeamLeaderboard {
         }
     }
 
-    private loadLeaderboardData(): TeamLeaderboardData {
+    private loadLeaderboardData(folder?: vscode.WorkspaceFolder): TeamLeaderboardData {
         try {
-            if (fs.existsSync(this.leaderboardPath)) {
-                const data = JSON.parse(fs.readFileSync(this.leaderboardPath, 'utf8'));
+            const leaderboardPath = this.getLeaderboardPath(folder);
+            if (fs.existsSync(leaderboardPath)) {
+                const data = JSON.parse(fs.readFileSync(leaderboardPath, 'utf8'));
                 // Convert date strings back to Date objects
                 data.lastUpdated = new Date(data.lastUpdated);
                 data.contributors.forEach((contributor: ContributorStats) => {
@@ -127,9 +125,10 @@ export class TeamLeaderboard {
         };
     }
 
-    private saveLeaderboardData(data: TeamLeaderboardData): void {
+    private saveLeaderboardData(data: TeamLeaderboardData, folder?: vscode.WorkspaceFolder): void {
         try {
-            fs.writeFileSync(this.leaderboardPath, JSON.stringify(data, null, 2), 'utf8');
+            this.ensureLeaderboardDirectory(folder);
+            fs.writeFileSync(this.getLeaderboardPath(folder), JSON.stringify(data, null, 2), 'utf8');
             this.outputChannel.appendLine(`📊 Leaderboard data saved`);
         } catch (error) {
             this.outputChannel.appendLine(`❌ Error saving leaderboard data: ${error}`);
@@ -142,7 +141,8 @@ export class TeamLeaderboard {
             return;
         }
 
-        const data = this.loadLeaderboardData();
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(report.filePath));
+        const data = this.loadLeaderboardData(folder);
         const currentScore = this.calculateQualityScore(report);
         
         let contributor = data.contributors.find(c => c.email === user.email);
@@ -202,7 +202,7 @@ export class TeamLeaderboard {
         // Calculate ranks
         this.calculateRanks(data);
         
-        this.saveLeaderboardData(data);
+        this.saveLeaderboardData(data, folder);
         this.outputChannel.appendLine(`📈 Updated stats for ${user.name}`);
     }
 
@@ -235,8 +235,8 @@ export class TeamLeaderboard {
         return Math.max(0, Math.min(100, Math.round(score)));
     }
 
-    async generateLeaderboardHTML(): Promise<string> {
-        const data = this.loadLeaderboardData();
+    async generateLeaderboardHTML(folder?: vscode.WorkspaceFolder): Promise<string> {
+        const data = this.loadLeaderboardData(folder);
         
         const htmlContent = `<!DOCTYPE html>
 <html lang="en">
@@ -260,12 +260,8 @@ export class TeamLeaderboard {
 </body>
 </html>`;
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const reportsBasePath = workspaceFolder 
-            ? path.join(workspaceFolder.uri.fsPath)
-            : path.join(require('os').homedir());
-            
-        const reportPath = path.join(reportsBasePath, '.what-the-code-reports', 'team-leaderboard.html');
+        this.ensureLeaderboardDirectory(folder);
+        const reportPath = path.join(WorkspaceScope.getReportsDirectory(folder), 'team-leaderboard.html');
         
         fs.writeFileSync(reportPath, htmlContent, 'utf8');
         this.outputChannel.appendLine(`🏆 Team leaderboard generated: ${reportPath}`);
@@ -876,9 +872,9 @@ export class TeamLeaderboard {
         </script>`;
     }
 
-    async openLeaderboard(): Promise<void> {
+    async openLeaderboard(folder?: vscode.WorkspaceFolder): Promise<void> {
         try {
-            const reportPath = await this.generateLeaderboardHTML();
+            const reportPath = await this.generateLeaderboardHTML(folder);
             const uri = vscode.Uri.file(reportPath);
             await vscode.env.openExternal(uri);
             this.outputChannel.appendLine(`🏆 Opened team leaderboard: ${reportPath}`);
@@ -888,8 +884,8 @@ export class TeamLeaderboard {
         }
     }
 
-    getLeaderboardData(): TeamLeaderboardData {
-        return this.loadLeaderboardData();
+    getLeaderboardData(folder?: vscode.WorkspaceFolder): TeamLeaderboardData {
+        return this.loadLeaderboardData(folder);
     }
 
     dispose(): void {
@@ -5,17 +5,81 @@ export interface CodeFile {
 	size: number;
 }
 
+export interface CodeSection {
+	file: string;
+	startLine: number;
+	endLine: number;
+	content: string;
+}
+
 export interface SearchResult {
 	file: string;
 	line: number;
+	endLine?: number;
+	column?: number;
+	endColumn?: number;
 	content: string;
 	explanation: string;
 	confidence?: number;
+	provider?: string;
+	verified?: boolean;
+}
+
+export interface SearchHistoryEntry {
+	id: string;
+	query: string;
+	timestamp: number;
+	provider?: string;
+	model?: string;
+	results: SearchResult[];
+	pinned?: boolean;
+}
+
+export interface ChatTurn {
+	role: 'user' | 'assistant';
+	text: string;
+	results?: SearchResult[];
+	context?: string;
+	provider?: string;
+	timestamp: number;
+}
+
+export interface JsonSchema {
+	type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+	description?: string;
+	properties?: { [key: string]: JsonSchema };
+	items?: JsonSchema;
+	required?: string[];
+	minimum?: number;
+	maximum?: number;
+}
+
+export interface QueryOptions {
+	/** Asks the provider to constrain its answer to this schema where its API supports it. */
+	responseSchema?: JsonSchema;
 }
 
 export interface AIProvider {
 	name: string;
-	query(prompt: string): Promise<string>;
+	model?: string;
+	query(prompt: string, options?: QueryOptions): Promise<string>;
+	/** Streams the answer through onChunk as it is generated and resolves with the full text. */
+	queryStream?(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal, options?: QueryOptions): Promise<string>;
+}
+
+export interface SearchIndexStats {
+	files: number;
+	chunks: number;
+	updatedAt: Date | null;
+}
+
+export interface SearchIndex {
+	readonly name: string;
+	indexFile(file: CodeFile): Promise<boolean>;
+	removeFile(filePath: string): boolean;
+	getIndexedFiles(): string[];
+	getStats(): SearchIndexStats;
+	save(): void;
 }
 
 export interface SearchOptions {
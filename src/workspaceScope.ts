@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const REPORTS_FOLDER_NAME = '.what-the-code-reports';
+
+/**
+ * Which workspace folders searches and analyzers run over. In a multi-root
+ * workspace this is either one folder or all of them, remembered per workspace.
+ */
+export class WorkspaceScope implements vscode.Disposable {
+	private static readonly STORAGE_KEY = 'whatTheCode.folderScope';
+
+	private _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private state: vscode.Memento) {
+		this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this._onDidChange.fire()));
+	}
+
+	static getAllFolders(): readonly vscode.WorkspaceFolder[] {
+		return vscode.workspace.workspaceFolders || [];
+	}
+
+	static isMultiRoot(): boolean {
+		return WorkspaceScope.getAllFolders().length > 1;
+	}
+
+	getFolders(): readonly vscode.WorkspaceFolder[] {
+		const selected = this.getSelectedFolder();
+		return selected ? [selected] : WorkspaceScope.getAllFolders();
+	}
+
+	isAllFolders(): boolean {
+		return !this.getSelectedFolder();
+	}
+
+	getLabel(): string {
+		return this.getSelectedFolder()?.name || 'All folders';
+	}
+
+	contains(filePath: string): boolean {
+		const selected = this.getSelectedFolder();
+		if (!selected) {
+			return true;
+		}
+		return WorkspaceScope.getFolderFor(filePath)?.uri.toString() === selected.uri.toString();
+	}
+
+	async select(): Promise<boolean> {
+		const folders = WorkspaceScope.getAllFolders();
+		if (folders.length < 2) {
+			vscode.window.showInformationMessage('Folder scope only applies to multi-root workspaces.');
+			return false;
+		}
+
+		const current = this.getSelectedFolder();
+		const items = [
+			{ label: '$(root-folder-opened) All folders', description: current ? undefined : 'current', folder: undefined as vscode.WorkspaceFolder | undefined },
+			...folders.map(folder => ({
+				label: `$(folder) ${folder.name}`,
+				description: current?.uri.toString() === folder.uri.toString() ? 'current' : folder.uri.fsPath,
+				folder
+			}))
+		];
+		const picked = await vscode.window.showQuickPick(items, {
+			placeHolder: 'Search and analyze which workspace folder?'
+		});
+		if (!picked) {
+			return false;
+		}
+
+		await this.state.update(WorkspaceScope.STORAGE_KEY, picked.folder?.uri.toString());
+		this._onDidChange.fire();
+		return true;
+	}
+
+	/** For things that live in a single folder, like the reports directory. */
+	async pickFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+		const folders = this.getFolders();
+		if (folders.length < 2) {
+			return folders[0];
+		}
+		const picked = await vscode.window.showQuickPick(
+			folders.map(folder => ({ label: `$(folder) ${folder.name}`, description: folder.uri.fsPath, folder })),
+			{ placeHolder }
+		);
+		return picked?.folder;
+	}
+
+	static getFolderFor(filePath: string): vscode.WorkspaceFolder | undefined {
+		return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(WorkspaceScope.resolvePath(filePath)));
+	}
+
+	/**
+	 * Turns a workspace-relative path back into an absolute one. In multi-root
+	 * workspaces relative paths start with the folder name ("api/src/index.ts"),
+	 * but AI answers sometimes drop it, so fall back to whichever folder has the file.
+	 */
+	static resolvePath(filePath: string): string {
+		if (path.isAbsolute(filePath)) {
+			return filePath;
+		}
+		const folders = WorkspaceScope.getAllFolders();
+		if (folders.length === 0) {
+			return filePath;
+		}
+
+		const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+		if (folders.length > 1) {
+			const [first, ...rest] = normalized.split('/');
+			const named = folders.find(folder => folder.name === first);
+			if (named && rest.length > 0) {
+				return path.join(named.uri.fsPath, ...rest);
+			}
+			const existing = folders.find(folder => fs.existsSync(path.join(folder.uri.fsPath, normalized)));
+			if (existing) {
+				return path.join(existing.uri.fsPath, normalized);
+			}
+		}
+		return path.join(folders[0].uri.fsPath, normalized);
+	}
+
+	static getReportsDirectory(folder?: vscode.WorkspaceFolder): string {
+		const base = folder || WorkspaceScope.getAllFolders()[0];
+		return path.join(base ? base.uri.fsPath : os.homedir(), REPORTS_FOLDER_NAME);
+	}
+
+	private getSelectedFolder(): vscode.WorkspaceFolder | undefined {
+		const selected = this.state.get<string>(WorkspaceScope.STORAGE_KEY);
+		if (!selected || !WorkspaceScope.isMultiRoot()) {
+			return undefined;
+		}
+		// A folder that was removed from the workspace falls back to all folders
+		return WorkspaceScope.getAllFolders().find(folder => folder.uri.toString() === selected);
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+}